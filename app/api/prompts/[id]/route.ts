@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { promptSchema } from "@/lib/schema"
+import { jsonError, readBody } from "@/lib/server/http"
+import { deletePrompt, getPrompt, putPrompt } from "@/lib/server/store"
+
+export const dynamic = "force-dynamic"
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params
+  const prompt = await getPrompt(id)
+  if (!prompt) return jsonError(404, `Prompt ${id} not found`)
+  return NextResponse.json({ prompt })
+}
+
+// Creates or replaces the prompt, keeping runs and test reports only the stored copy has.
+// Responds 409 with the stored copy when it is newer.
+export async function PUT(req: Request, { params }: Params) {
+  const { id } = await params
+  const body = await readBody(req, promptSchema)
+  if (body.response) return body.response
+  if (body.data.id !== id) return jsonError(400, "Body id does not match the URL")
+  const result = await putPrompt(body.data)
+  if (!result.ok) return NextResponse.json({ error: "Stored prompt is newer", prompt: result.current }, { status: 409 })
+  return NextResponse.json({ prompt: result.prompt })
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params
+  await deletePrompt(id)
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { exportLibrary } from "@/lib/server/store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const payload = await exportLibrary()
+  return NextResponse.json(payload, {
+    headers: {
+      "Content-Disposition": `attachment; filename="prompts-export-${new Date().toISOString().slice(0, 10)}.json"`,
+    },
+  })
+}
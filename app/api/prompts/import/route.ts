@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { importPayloadSchema } from "@/lib/schema"
+import { readBody } from "@/lib/server/http"
+import { importLibrary } from "@/lib/server/store"
+
+export const dynamic = "force-dynamic"
+
+// Bulk import of an ExportFile-like payload. Existing ids are skipped unless `overwrite` is set.
+export async function POST(req: Request) {
+  const body = await readBody(req, importPayloadSchema)
+  if (body.response) return body.response
+  return NextResponse.json(await importLibrary(body.data))
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { promptSchema } from "@/lib/schema"
+import { jsonError, readBody } from "@/lib/server/http"
+import { changesSince, createPrompt, listPrompts } from "@/lib/server/store"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/prompts            -> { prompts }
+// GET /api/prompts?since=<ms> -> { prompts, deleted, serverTime } changed after `since` (server clock)
+export async function GET(req: Request) {
+  const since = new URL(req.url).searchParams.get("since")
+  if (since !== null) {
+    const ts = Number(since)
+    if (!Number.isFinite(ts)) return jsonError(400, "`since` must be a timestamp in milliseconds")
+    return NextResponse.json(await changesSince(ts))
+  }
+  return NextResponse.json({ prompts: await listPrompts() })
+}
+
+export async function POST(req: Request) {
+  const body = await readBody(req, promptSchema)
+  if (body.response) return body.response
+  const created = await createPrompt(body.data)
+  if (!created) return jsonError(409, `Prompt ${body.data.id} already exists`)
+  return NextResponse.json({ prompt: created }, { status: 201 })
+}
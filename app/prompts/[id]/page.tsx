@@ -0,0 +1,12 @@
+import { Suspense } from "react"
+import { PromptManager } from "@/components/prompt-manager"
+
+// The library lives in the browser, so this route renders the same app and the
+// client opens the prompt named in the path once it has loaded.
+export default function PromptPage() {
+  return (
+    <Suspense>
+      <PromptManager />
+    </Suspense>
+  )
+}
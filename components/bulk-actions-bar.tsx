@@ -0,0 +1,303 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { TagInput, type TagInputHandle } from "@/components/tag-input"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { FORMATS, type LibraryFormat } from "@/lib/formats"
+import type { Workspace } from "@/lib/types"
+import { normalizeCategory, normalizeTag } from "@/lib/utils"
+import { CopyPlus, Download, Folder, GitCompare, Layers, Star, StarOff, Tag, Trash, X } from "lucide-react"
+
+export type BulkTagChange = { add: string[]; remove: string[] }
+
+export function BulkActionsBar({
+  count,
+  filteredCount,
+  allFilteredSelected,
+  onSelectAll,
+  onClear,
+  onDone,
+  categories,
+  tagSuggestions,
+  selectedTags,
+  onDelete,
+  onMove,
+  onTags,
+  onFavorite,
+  onExport,
+  onDuplicate,
+  onCombine,
+  workspaces,
+  onTransfer,
+}: {
+  count: number
+  filteredCount: number
+  allFilteredSelected: boolean
+  onSelectAll: () => void
+  onClear: () => void
+  onDone: () => void
+  categories: string[]
+  tagSuggestions: string[]
+  selectedTags: string[]
+  onDelete: () => void
+  onMove: (category: string | null) => void
+  onTags: (change: BulkTagChange) => void
+  onFavorite: (favorite: boolean) => void
+  onExport: (format: LibraryFormat) => void
+  onDuplicate: () => void
+  // Folds the selected copies into the oldest one as variants.
+  onCombine: () => void
+  workspaces: Workspace[]
+  onTransfer: (workspaceId: string, move: boolean) => void
+}) {
+  const [moveOpen, setMoveOpen] = useState(false)
+  const [newCategory, setNewCategory] = useState("")
+  const [tagsOpen, setTagsOpen] = useState(false)
+  const [addTags, setAddTags] = useState<string[]>([])
+  const [removeTags, setRemoveTags] = useState<string[]>([])
+  const tagInputRef = useRef<TagInputHandle | null>(null)
+  const none = count === 0
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-card p-2 text-sm">
+      <span className="px-1 font-medium">{count} selected</span>
+      <Button variant="ghost" size="sm" onClick={allFilteredSelected ? onClear : onSelectAll}>
+        {allFilteredSelected ? "Clear selection" : `Select all ${filteredCount}`}
+      </Button>
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" disabled={none} onClick={() => onFavorite(true)}>
+          <Star className="mr-2 h-4 w-4" />
+          Favorite
+        </Button>
+        <Button variant="outline" size="sm" disabled={none} onClick={() => onFavorite(false)}>
+          <StarOff className="mr-2 h-4 w-4" />
+          Unfavorite
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={none}>
+              <Folder className="mr-2 h-4 w-4" />
+              Move
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Move to category</DropdownMenuLabel>
+            {categories.map((c) => (
+              <DropdownMenuItem key={c} onClick={() => onMove(c)}>
+                {c}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuItem onClick={() => onMove(null)}>Uncategorized</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => {
+                setNewCategory("")
+                setMoveOpen(true)
+              }}
+            >
+              New category…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={none}
+          onClick={() => {
+            setAddTags([])
+            setRemoveTags([])
+            setTagsOpen(true)
+          }}
+        >
+          <Tag className="mr-2 h-4 w-4" />
+          Tags
+        </Button>
+
+        <Button variant="outline" size="sm" disabled={none} onClick={onDuplicate}>
+          <CopyPlus className="mr-2 h-4 w-4" />
+          Duplicate
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={count < 2}
+          onClick={onCombine}
+          title="Keep the oldest prompt and add the others to it as variants"
+        >
+          <GitCompare className="mr-2 h-4 w-4" />
+          Combine as variants
+        </Button>
+
+        {workspaces.length > 0 ? (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={none}>
+                <Layers className="mr-2 h-4 w-4" />
+                Workspace
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Copy to workspace</DropdownMenuLabel>
+              {workspaces.map((w) => (
+                <DropdownMenuItem key={w.id} onClick={() => onTransfer(w.id, false)}>
+                  {w.name}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Move to workspace</DropdownMenuLabel>
+              {workspaces.map((w) => (
+                <DropdownMenuItem key={w.id} onClick={() => onTransfer(w.id, true)}>
+                  {w.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ) : null}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={none}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {(Object.keys(FORMATS) as LibraryFormat[]).map((f) => (
+              <DropdownMenuItem key={f} onClick={() => onExport(f)}>
+                {FORMATS[f].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button variant="destructive" size="sm" disabled={none} onClick={onDelete}>
+          <Trash className="mr-2 h-4 w-4" />
+          Delete
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onDone} aria-label="Exit selection mode">
+          <X className="mr-2 h-4 w-4" />
+          Done
+        </Button>
+      </div>
+
+      <Dialog open={moveOpen} onOpenChange={setMoveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form
+            className="grid gap-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              const c = normalizeCategory(newCategory)
+              if (!c) return
+              onMove(c)
+              setMoveOpen(false)
+            }}
+          >
+            <DialogHeader>
+              <DialogTitle>Move to a new category</DialogTitle>
+              <DialogDescription>{count} selected prompts</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2">
+              <Label htmlFor="bulk-category">Category</Label>
+              <Input
+                id="bulk-category"
+                value={newCategory}
+                onChange={(e) => setNewCategory(e.target.value)}
+                placeholder="e.g., Support"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="secondary" type="button" onClick={() => setMoveOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!normalizeCategory(newCategory)}>
+                Move
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={tagsOpen} onOpenChange={setTagsOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit tags</DialogTitle>
+            <DialogDescription>{count} selected prompts</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label>Add tags</Label>
+              <TagInput
+                ref={tagInputRef}
+                value={addTags}
+                onChange={setAddTags}
+                suggestions={tagSuggestions}
+                aria-label="Tags to add"
+              />
+            </div>
+            {selectedTags.length > 0 ? (
+              <div className="grid gap-2">
+                <Label>Remove tags</Label>
+                <div className="flex flex-wrap gap-2">
+                  {selectedTags.map((t) => {
+                    const active = removeTags.includes(t)
+                    return (
+                      <button
+                        type="button"
+                        key={t}
+                        onClick={() =>
+                          setRemoveTags((prev) => (active ? prev.filter((x) => x !== t) : [...prev, t]))
+                        }
+                        className={
+                          active
+                            ? "rounded-full border border-red-500 bg-red-500/10 px-2 py-1 text-xs text-red-600 line-through"
+                            : "rounded-full border px-2 py-1 text-xs hover:bg-muted"
+                        }
+                        aria-pressed={active}
+                        aria-label={`Remove tag ${t}`}
+                      >
+                        {t}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            ) : null}
+          </div>
+          <DialogFooter>
+            <Button variant="secondary" type="button" onClick={() => setTagsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => {
+                const pending = normalizeTag(tagInputRef.current?.getPending() || "")
+                const add = pending && !addTags.includes(pending) ? [...addTags, pending] : addTags
+                if (add.length === 0 && removeTags.length === 0) return
+                onTags({ add, remove: removeTags })
+                setTagsOpen(false)
+              }}
+            >
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ALL_CATEGORIES, categoryAncestors, UNCATEGORIZED, type CategoryNode } from "@/lib/categories"
+import { cn } from "@/lib/utils"
+import { ChevronRight, Folder, FolderOpen, Inbox, Library } from "lucide-react"
+
+// Prompt cards put their ids on the drag under this type.
+export const PROMPT_DRAG_TYPE = "application/x-prompt-ids"
+
+type DropTarget = string | null
+
+export function CategoryTree({
+  tree,
+  total,
+  uncategorized,
+  selected,
+  onSelect,
+  onDropPrompts,
+}: {
+  tree: CategoryNode[]
+  total: number
+  uncategorized: number
+  // A category path, ALL_CATEGORIES or UNCATEGORIZED.
+  selected: string
+  onSelect: (category: string) => void
+  onDropPrompts: (ids: string[], category: string | null) => void
+}) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [dropTarget, setDropTarget] = useState<DropTarget | undefined>(undefined)
+
+  // Reveal the selected folder, e.g. when it was picked from a link or a collection.
+  useEffect(() => {
+    if (selected === ALL_CATEGORIES || selected === UNCATEGORIZED) return
+    setExpanded((prev) => {
+      const parents = categoryAncestors(selected).slice(0, -1)
+      if (parents.every((p) => prev.has(p))) return prev
+      return new Set([...prev, ...parents])
+    })
+  }, [selected])
+
+  function toggle(path: string) {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }
+
+  function dropProps(target: DropTarget) {
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(PROMPT_DRAG_TYPE)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = "move"
+        setDropTarget(target)
+      },
+      onDragLeave: () => setDropTarget(undefined),
+      onDrop: (e: React.DragEvent) => {
+        setDropTarget(undefined)
+        const raw = e.dataTransfer.getData(PROMPT_DRAG_TYPE)
+        if (!raw) return
+        e.preventDefault()
+        try {
+          const ids = JSON.parse(raw)
+          if (Array.isArray(ids) && ids.length > 0) onDropPrompts(ids.map(String), target)
+        } catch {
+          // Not ours.
+        }
+      },
+    }
+  }
+
+  function row(
+    key: string,
+    label: string,
+    count: number,
+    value: string,
+    icon: React.ReactNode,
+    depth = 0,
+    extra?: { target?: DropTarget; hasChildren?: boolean; open?: boolean; path?: string },
+  ) {
+    const active = selected === value
+    const droppable = extra?.target !== undefined
+    return (
+      <div
+        key={key}
+        className={cn(
+          "flex items-center gap-1 rounded-md text-sm",
+          droppable && dropTarget === extra?.target && "ring-2 ring-primary",
+        )}
+        style={{ paddingLeft: depth * 12 }}
+        {...(droppable ? dropProps(extra!.target as DropTarget) : {})}
+      >
+        {extra?.hasChildren ? (
+          <button
+            className="rounded p-0.5 text-muted-foreground hover:text-foreground"
+            onClick={() => toggle(extra.path!)}
+            aria-label={extra.open ? `Collapse ${label}` : `Expand ${label}`}
+            aria-expanded={extra.open}
+          >
+            <ChevronRight className={cn("h-3.5 w-3.5 transition-transform", extra.open && "rotate-90")} />
+          </button>
+        ) : (
+          <span className="w-[18px] shrink-0" />
+        )}
+        <button
+          className={cn(
+            "flex min-w-0 flex-1 items-center gap-2 rounded-md px-2 py-1 text-left",
+            active ? "bg-foreground text-background" : "hover:bg-muted",
+          )}
+          onClick={() => onSelect(active && value !== ALL_CATEGORIES ? ALL_CATEGORIES : value)}
+          aria-pressed={active}
+          title={extra?.path || label}
+        >
+          {icon}
+          <span className="truncate">{label}</span>
+          <span className="ml-auto text-xs opacity-70">{count}</span>
+        </button>
+      </div>
+    )
+  }
+
+  function renderNode(node: CategoryNode): React.ReactNode {
+    const open = expanded.has(node.path)
+    const hasChildren = node.children.length > 0
+    const FolderIcon = open && hasChildren ? FolderOpen : Folder
+    return (
+      <div key={node.path} role="treeitem" aria-expanded={hasChildren ? open : undefined}>
+        {row(node.path, node.name, node.total, node.path, <FolderIcon className="h-4 w-4 shrink-0" />, node.depth, {
+          target: node.path,
+          hasChildren,
+          open,
+          path: node.path,
+        })}
+        {hasChildren && open ? <div role="group">{node.children.map(renderNode)}</div> : null}
+      </div>
+    )
+  }
+
+  return (
+    <nav aria-label="Categories" className="rounded-lg border bg-card p-3">
+      <h2 className="mb-2 flex items-center gap-2 text-sm font-medium">
+        <Folder className="h-4 w-4" />
+        Categories
+      </h2>
+      <div role="tree" className="grid gap-0.5">
+        {row(ALL_CATEGORIES, "All prompts", total, ALL_CATEGORIES, <Library className="h-4 w-4 shrink-0" />)}
+        {tree.map(renderNode)}
+        {row(UNCATEGORIZED, "Uncategorized", uncategorized, UNCATEGORIZED, <Inbox className="h-4 w-4 shrink-0" />, 0, {
+          target: null,
+        })}
+      </div>
+      <p className="mt-2 text-xs text-muted-foreground">Drag prompts onto a folder to move them.</p>
+    </nav>
+  )
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { stepValues } from "@/lib/chains"
+import { missingRequired, parseVariables, renderTemplate } from "@/lib/template"
+import type { Chain, ChainRun, ChainRunStep, Prompt, VariableValues } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+import { ArrowLeft, ArrowRight, Check, Copy, Square } from "lucide-react"
+
+export function ChainRunner({
+  chain,
+  prompts,
+  expand,
+  variableValues,
+  onCopy,
+  onFinish,
+  onCancel,
+}: {
+  chain: Chain
+  prompts: Map<string, Prompt>
+  // Prompt content with includes expanded.
+  expand: (prompt: Prompt) => string
+  variableValues: VariableValues
+  onCopy: (prompt: Prompt, text: string) => void
+  onFinish: (run: ChainRun) => void
+  onCancel: () => void
+}) {
+  const [startedAt] = useState(now)
+  const [index, setIndex] = useState(0)
+  const [manual, setManual] = useState<Record<string, Record<string, string>>>({})
+  const [outputs, setOutputs] = useState<Record<string, string>>({})
+  const [copied, setCopied] = useState<Set<string>>(new Set())
+
+  const step = chain.steps[index]
+  const prompt = step ? prompts.get(step.promptId) : undefined
+  const content = useMemo(() => (prompt ? expand(prompt) : ""), [prompt, expand])
+  const variables = useMemo(() => parseVariables(content), [content])
+  // Remembered values from earlier copies of the prompt are the starting point.
+  const stepManual = (step && manual[step.id]) || (prompt && variableValues[prompt.id]) || {}
+  const values = step ? stepValues(step, stepManual, outputs) : {}
+  const missing = missingRequired(variables.filter((v) => !step?.inputs[v.name]), values)
+  const rendered = renderTemplate(content, values)
+  const last = index === chain.steps.length - 1
+
+  // Renders every step reached so far with the values entered for it.
+  function transcript(upTo: number): ChainRunStep[] {
+    return chain.steps.slice(0, upTo + 1).flatMap((s) => {
+      const p = prompts.get(s.promptId)
+      if (!p) return []
+      const body = expand(p)
+      return [
+        {
+          stepId: s.id,
+          promptId: p.id,
+          title: p.title,
+          input: renderTemplate(body, stepValues(s, manual[s.id] || variableValues[p.id] || {}, outputs)),
+          output: outputs[s.id] || "",
+        },
+      ]
+    })
+  }
+
+  function finish(upTo: number, complete: boolean) {
+    const steps = transcript(upTo)
+    if (steps.length === 0) return onCancel()
+    onFinish({ id: uid(), chainId: chain.id, startedAt, finishedAt: complete ? now() : undefined, steps })
+  }
+
+  function setValue(name: string, value: string) {
+    if (!step) return
+    setManual((prev) => ({ ...prev, [step.id]: { ...stepManual, [name]: value } }))
+  }
+
+  if (!step) return null
+
+  return (
+    <section className="grid gap-4 rounded-lg border bg-card p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{chain.name}</span>
+        <span className="text-muted-foreground">
+          Step {index + 1} of {chain.steps.length}
+        </span>
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={() => finish(index, false)}>
+          <Square className="mr-2 h-4 w-4" />
+          Stop and save
+        </Button>
+      </div>
+
+      <ol className="flex flex-wrap gap-1 text-xs">
+        {chain.steps.map((s, i) => (
+          <li
+            key={s.id}
+            className={
+              i === index
+                ? "rounded-full bg-foreground px-2 py-0.5 text-background"
+                : i < index
+                  ? "rounded-full border px-2 py-0.5"
+                  : "rounded-full border px-2 py-0.5 text-muted-foreground"
+            }
+          >
+            {i + 1}. {prompts.get(s.promptId)?.title || "Missing prompt"}
+          </li>
+        ))}
+      </ol>
+
+      {!prompt ? (
+        <p className="rounded-md border border-dashed p-4 text-sm text-muted-foreground">
+          The prompt for this step was deleted. Skip it or edit the chain.
+        </p>
+      ) : (
+        <>
+          {variables.length > 0 ? (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {variables.map((v) => {
+                const from = step.inputs[v.name]
+                const fromIndex = chain.steps.findIndex((s) => s.id === from)
+                return (
+                  <div key={v.name} className="grid gap-1">
+                    <Label htmlFor={`chain-var-${v.name}`} className="font-mono text-xs">
+                      {v.name}
+                      {v.required && !from ? " *" : ""}
+                    </Label>
+                    {from ? (
+                      <p className="rounded-md border bg-muted/40 px-3 py-2 text-xs text-muted-foreground">
+                        Output of step {fromIndex + 1}
+                        {outputs[from] ? "" : " (empty)"}
+                      </p>
+                    ) : (
+                      <Input
+                        id={`chain-var-${v.name}`}
+                        value={stepManual[v.name] ?? ""}
+                        onChange={(e) => setValue(v.name, e.target.value)}
+                        placeholder={v.defaultValue || v.description || ""}
+                      />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ) : null}
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label>Prompt</Label>
+              <Button
+                variant={copied.has(step.id) ? "secondary" : "outline"}
+                size="sm"
+                disabled={missing.length > 0}
+                title={missing.length > 0 ? `Fill in: ${missing.join(", ")}` : undefined}
+                onClick={() => {
+                  onCopy(prompt, rendered)
+                  setCopied((prev) => new Set(prev).add(step.id))
+                }}
+              >
+                {copied.has(step.id) ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+                Copy step
+              </Button>
+            </div>
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/30 p-3 font-mono text-sm">
+              {rendered}
+            </pre>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="chain-output">Output</Label>
+            <Textarea
+              id="chain-output"
+              rows={6}
+              value={outputs[step.id] || ""}
+              onChange={(e) => setOutputs((prev) => ({ ...prev, [step.id]: e.target.value }))}
+              placeholder="Paste the model's answer here; later steps can use it."
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" onClick={index === 0 ? onCancel : () => setIndex(index - 1)}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          {index === 0 ? "Cancel" : "Back"}
+        </Button>
+        {last ? (
+          <Button size="sm" onClick={() => finish(index, true)}>
+            <Check className="mr-2 h-4 w-4" />
+            Finish run
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => setIndex(index + 1)}>
+            {prompt ? "Next step" : "Skip"}
+            <ArrowRight className="ml-2 h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </section>
+  )
+}
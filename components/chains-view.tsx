@@ -0,0 +1,320 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ChainRunner } from "@/components/chain-runner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { createChain, createStep, moveStep, pruneInputs, transcriptToMarkdown } from "@/lib/chains"
+import { parseVariables } from "@/lib/template"
+import type { Chain, ChainRun, Prompt, VariableValues } from "@/lib/types"
+import { cn, now } from "@/lib/utils"
+import { ArrowDown, ArrowLeft, ArrowUp, Copy, Play, Plus, Trash, Workflow, X } from "lucide-react"
+
+// Select items cannot have an empty value, so "fill in by hand" gets a sentinel.
+const MANUAL = "__manual__"
+
+export function ChainsView({
+  chains,
+  runs,
+  prompts,
+  expand,
+  variableValues,
+  onSave,
+  onDelete,
+  onCopy,
+  onCopyText,
+  onSaveRun,
+  onDeleteRun,
+  onClose,
+}: {
+  chains: Chain[]
+  runs: ChainRun[]
+  prompts: Prompt[]
+  expand: (prompt: Prompt) => string
+  variableValues: VariableValues
+  onSave: (chain: Chain) => void
+  onDelete: (id: string) => void
+  onCopy: (prompt: Prompt, text: string) => void
+  onCopyText: (text: string) => void
+  onSaveRun: (run: ChainRun) => void
+  onDeleteRun: (id: string) => void
+  onClose: () => void
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(chains[0]?.id ?? null)
+  const [running, setRunning] = useState(false)
+  const [newName, setNewName] = useState("")
+  const byId = useMemo(() => new Map(prompts.map((p) => [p.id, p])), [prompts])
+  const sortedPrompts = useMemo(() => [...prompts].sort((a, b) => a.title.localeCompare(b.title)), [prompts])
+  const chain = chains.find((c) => c.id === selectedId) || null
+  const chainRuns = chain ? runs.filter((r) => r.chainId === chain.id) : []
+
+  function update(next: Chain) {
+    onSave({ ...next, steps: pruneInputs(next.steps), updatedAt: now() })
+  }
+
+  function variablesOf(promptId: string) {
+    const p = byId.get(promptId)
+    return p ? parseVariables(expand(p)) : []
+  }
+
+  function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    if (!newName.trim()) return
+    const created = createChain(newName)
+    onSave(created)
+    setSelectedId(created.id)
+    setNewName("")
+  }
+
+  return (
+    <section className="grid gap-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to library
+        </Button>
+        <span className="text-muted-foreground">
+          {chains.length} chain{chains.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+        <div className="grid content-start gap-2">
+          {chains.map((c) => (
+            <button
+              key={c.id}
+              className={cn(
+                "flex items-center gap-2 rounded-md border px-3 py-2 text-left text-sm",
+                c.id === selectedId ? "bg-foreground text-background" : "bg-card hover:bg-muted",
+              )}
+              onClick={() => {
+                setSelectedId(c.id)
+                setRunning(false)
+              }}
+            >
+              <Workflow className="h-4 w-4 shrink-0" />
+              <span className="truncate">{c.name}</span>
+              <span className="ml-auto text-xs opacity-70">{c.steps.length}</span>
+            </button>
+          ))}
+          <form className="flex gap-2" onSubmit={handleCreate}>
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New chain name"
+              aria-label="New chain name"
+            />
+            <Button type="submit" size="icon" variant="outline" disabled={!newName.trim()} aria-label="Create chain">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        {!chain ? (
+          <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+            <Workflow className="mx-auto mb-2 h-6 w-6" />
+            Chains run several prompts in order, e.g. summarize, then critique, then rewrite. Create one to start.
+          </div>
+        ) : running ? (
+          <ChainRunner
+            chain={chain}
+            prompts={byId}
+            expand={expand}
+            variableValues={variableValues}
+            onCopy={onCopy}
+            onFinish={(run) => {
+              onSaveRun(run)
+              setRunning(false)
+            }}
+            onCancel={() => setRunning(false)}
+          />
+        ) : (
+          <div className="grid content-start gap-4">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="grid flex-1 gap-1">
+                <Label htmlFor="chain-name">Name</Label>
+                <Input id="chain-name" value={chain.name} onChange={(e) => update({ ...chain, name: e.target.value })} />
+              </div>
+              <Button onClick={() => setRunning(true)} disabled={chain.steps.length === 0}>
+                <Play className="mr-2 h-4 w-4" />
+                Run
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  onDelete(chain.id)
+                  setSelectedId(null)
+                }}
+                aria-label="Delete chain"
+                title="Delete chain"
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <ol className="grid gap-2">
+              {chain.steps.map((step, i) => {
+                const prompt = byId.get(step.promptId)
+                const variables = variablesOf(step.promptId)
+                return (
+                  <li key={step.id} className="grid gap-2 rounded-md border bg-card p-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">Step {i + 1}</span>
+                      <span className={cn("truncate font-medium", !prompt && "text-red-600")}>
+                        {prompt?.title || "Deleted prompt"}
+                      </span>
+                      <div className="ml-auto flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={i === 0}
+                          onClick={() => update({ ...chain, steps: moveStep(chain.steps, i, -1) })}
+                          aria-label="Move step up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={i === chain.steps.length - 1}
+                          onClick={() => update({ ...chain, steps: moveStep(chain.steps, i, 1) })}
+                          aria-label="Move step down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => update({ ...chain, steps: chain.steps.filter((s) => s.id !== step.id) })}
+                          aria-label="Remove step"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {variables.length > 0 ? (
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        {variables.map((v) => (
+                          <div key={v.name} className="flex items-center gap-2">
+                            <span className="w-28 shrink-0 truncate font-mono text-xs">{v.name}</span>
+                            <Select
+                              value={step.inputs[v.name] || MANUAL}
+                              onValueChange={(value) => {
+                                const inputs = { ...step.inputs }
+                                if (value === MANUAL) delete inputs[v.name]
+                                else inputs[v.name] = value
+                                update({ ...chain, steps: chain.steps.map((s) => (s.id === step.id ? { ...s, inputs } : s)) })
+                              }}
+                            >
+                              <SelectTrigger className="h-8 w-full text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={MANUAL}>Fill in by hand</SelectItem>
+                                {chain.steps.slice(0, i).map((s, j) => (
+                                  <SelectItem key={s.id} value={s.id}>
+                                    Output of step {j + 1}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
+                  </li>
+                )
+              })}
+            </ol>
+
+            <Select
+              value=""
+              onValueChange={(promptId) => {
+                const step = createStep(promptId, variablesOf(promptId), chain.steps[chain.steps.length - 1])
+                update({ ...chain, steps: [...chain.steps, step] })
+              }}
+            >
+              <SelectTrigger className="w-full sm:w-72">
+                <SelectValue placeholder="Add a step…" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedPrompts.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="grid gap-2">
+              <h3 className="text-sm font-medium">Runs</h3>
+              {chainRuns.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No runs yet. Transcripts are kept here after each run.</p>
+              ) : (
+                chainRuns.map((run) => (
+                  <details key={run.id} className="rounded-md border bg-card p-3 text-sm">
+                    <summary className="flex cursor-pointer items-center gap-2">
+                      <span>{new Date(run.startedAt).toLocaleString()}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {run.steps.length} step{run.steps.length === 1 ? "" : "s"}
+                        {run.finishedAt ? "" : " · stopped early"}
+                      </span>
+                      <span className="ml-auto flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={(e) => {
+                            e.preventDefault()
+                            onCopyText(transcriptToMarkdown(chain.name, run))
+                          }}
+                          aria-label="Copy transcript"
+                          title="Copy transcript as Markdown"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={(e) => {
+                            e.preventDefault()
+                            onDeleteRun(run.id)
+                          }}
+                          aria-label="Delete run"
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </span>
+                    </summary>
+                    <ol className="mt-3 grid gap-3">
+                      {run.steps.map((s, i) => (
+                        <li key={`${s.stepId}-${i}`} className="grid gap-1">
+                          <p className="text-xs font-medium">
+                            Step {i + 1}: {s.title}
+                          </p>
+                          <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded border bg-muted/30 p-2 font-mono text-xs">
+                            {s.input}
+                          </pre>
+                          <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded border p-2 text-xs">
+                            {s.output || "No output recorded"}
+                          </pre>
+                        </li>
+                      ))}
+                    </ol>
+                  </details>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { Fragment, useEffect, useState } from "react"
+import { defaultFilter } from "cmdk"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command"
+import type { Prompt } from "@/lib/types"
+import { FileText, Star, type LucideIcon } from "lucide-react"
+
+export type PaletteCommand = {
+  id: string
+  label: string
+  group: string
+  icon?: LucideIcon
+  shortcut?: string
+  keywords?: string[]
+  run: () => void
+}
+
+// Item values must be unique, so matching runs on the keywords instead (titles can repeat).
+function filter(value: string, search: string, keywords?: string[]) {
+  return defaultFilter?.(keywords?.length ? keywords.join(" ") : value, search) ?? 0
+}
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  prompts,
+  commands,
+  onOpenPrompt,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  prompts: Prompt[]
+  commands: PaletteCommand[]
+  onOpenPrompt: (prompt: Prompt) => void
+}) {
+  const [query, setQuery] = useState("")
+
+  useEffect(() => {
+    if (open) setQuery("")
+  }, [open])
+
+  // Close first so the palette hands focus back before a command opens its own dialog.
+  function run(action: () => void) {
+    onOpenChange(false)
+    setTimeout(action, 0)
+  }
+
+  const groups = Array.from(new Set(commands.map((c) => c.group)))
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Command palette"
+      description="Search prompts and commands"
+      commandProps={{ filter }}
+    >
+      <CommandInput placeholder="Search prompts and commands…" value={query} onValueChange={setQuery} />
+      <CommandList className="max-h-[min(60vh,420px)]">
+        <CommandEmpty>Nothing found.</CommandEmpty>
+        {groups.map((group, i) => (
+          <Fragment key={group}>
+            {i > 0 ? <CommandSeparator /> : null}
+            <CommandGroup heading={group}>
+              {commands
+                .filter((c) => c.group === group)
+                .map((c) => {
+                  const Icon = c.icon
+                  return (
+                    <CommandItem
+                      key={c.id}
+                      value={c.id}
+                      keywords={[c.label, group, ...(c.keywords || [])]}
+                      onSelect={() => run(c.run)}
+                    >
+                      {Icon ? <Icon /> : null}
+                      <span className="truncate">{c.label}</span>
+                      {c.shortcut ? <CommandShortcut>{c.shortcut}</CommandShortcut> : null}
+                    </CommandItem>
+                  )
+                })}
+            </CommandGroup>
+          </Fragment>
+        ))}
+        {prompts.length > 0 ? (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Prompts">
+              {prompts.map((p) => (
+                <CommandItem
+                  key={p.id}
+                  value={`prompt:${p.id}`}
+                  keywords={[p.title, p.category || "", ...p.tags]}
+                  onSelect={() => run(() => onOpenPrompt(p))}
+                >
+                  {p.favorite ? <Star className="text-yellow-500" /> : <FileText />}
+                  <span className="truncate">{p.title}</span>
+                  {p.category ? <CommandShortcut className="tracking-normal">{p.category}</CommandShortcut> : null}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        ) : null}
+      </CommandList>
+    </CommandDialog>
+  )
+}
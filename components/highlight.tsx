@@ -0,0 +1,18 @@
+import type { Range } from "@/lib/search"
+
+export function Highlight({ text, ranges }: { text: string; ranges: Range[] }) {
+  if (ranges.length === 0) return <>{text}</>
+  const parts: React.ReactNode[] = []
+  let at = 0
+  ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(text.slice(at, start))
+    parts.push(
+      <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    at = end
+  })
+  if (at < text.length) parts.push(text.slice(at))
+  return <>{parts}</>
+}
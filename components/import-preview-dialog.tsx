@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ConflictResolution, ImportPreview } from "@/lib/import"
+import { AlertTriangle, Check, Plus } from "lucide-react"
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  mine: "Keep mine",
+  theirs: "Take theirs",
+  both: "Keep both",
+  newest: "Keep newest",
+}
+
+function ResolutionSelect({
+  value,
+  onChange,
+  label,
+}: {
+  value: ConflictResolution
+  onChange: (v: ConflictResolution) => void
+  label: string
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ConflictResolution)}>
+      <SelectTrigger size="sm" className="w-36" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map((r) => (
+          <SelectItem key={r} value={r}>
+            {RESOLUTION_LABELS[r]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function ImportPreviewDialog({
+  open,
+  setOpen,
+  fileName,
+  preview,
+  onConfirm,
+}: {
+  open: boolean
+  setOpen: (v: boolean) => void
+  fileName: string
+  preview: ImportPreview | null
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => void
+}) {
+  const [globalChoice, setGlobalChoice] = useState<ConflictResolution>("newest")
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({})
+
+  const groups = useMemo(() => {
+    const items = preview?.items || []
+    return {
+      fresh: items.filter((i) => i.status === "new"),
+      identical: items.filter((i) => i.status === "identical"),
+      conflicts: items.filter((i) => i.status === "conflict"),
+    }
+  }, [preview])
+
+  useEffect(() => {
+    if (!open) return
+    setGlobalChoice("newest")
+    setResolutions(Object.fromEntries(groups.conflicts.map((i) => [i.incoming.id, "newest" as ConflictResolution])))
+  }, [open, groups.conflicts])
+
+  function applyToAll(choice: ConflictResolution) {
+    setGlobalChoice(choice)
+    setResolutions(Object.fromEntries(groups.conflicts.map((i) => [i.incoming.id, choice])))
+  }
+
+  const importable = groups.fresh.length + groups.conflicts.length
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-3xl p-0">
+        <div className="grid max-h-[85vh] grid-rows-[auto,1fr,auto]">
+          <DialogHeader className="px-6 pt-6">
+            <DialogTitle>Import preview</DialogTitle>
+            <DialogDescription>
+              {fileName}
+              {" • "}
+              {groups.fresh.length} new, {groups.identical.length} identical, {groups.conflicts.length} conflicting
+              {preview && preview.rejected.length > 0 ? `, ${preview.rejected.length} rejected` : ""}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 overflow-y-auto px-6 pb-4 text-sm">
+            {groups.conflicts.length > 0 ? (
+              <section className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-medium">Conflicts ({groups.conflicts.length})</h3>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    Apply to all
+                    <ResolutionSelect value={globalChoice} onChange={applyToAll} label="Resolution for all conflicts" />
+                  </div>
+                </div>
+                <ul className="divide-y rounded-md border">
+                  {groups.conflicts.map(({ incoming, existing }) => (
+                    <li key={incoming.id} className="flex items-center gap-3 p-2">
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate font-medium">{incoming.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {"Mine: "}
+                          {existing ? new Date(existing.updatedAt).toLocaleString() : "—"}
+                          {" • Theirs: "}
+                          {new Date(incoming.updatedAt).toLocaleString()}
+                          {existing && existing.title !== incoming.title ? ` • was "${existing.title}"` : ""}
+                        </div>
+                      </div>
+                      <ResolutionSelect
+                        value={resolutions[incoming.id] || globalChoice}
+                        onChange={(v) => setResolutions((prev) => ({ ...prev, [incoming.id]: v }))}
+                        label={`Resolution for ${incoming.title}`}
+                      />
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ) : null}
+
+            {groups.fresh.length > 0 ? (
+              <section className="space-y-2">
+                <h3 className="flex items-center gap-2 font-medium">
+                  <Plus className="h-4 w-4" /> New ({groups.fresh.length})
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {groups.fresh.map(({ incoming }) => (
+                    <Badge key={incoming.id} variant="secondary">
+                      {incoming.title}
+                    </Badge>
+                  ))}
+                </div>
+              </section>
+            ) : null}
+
+            {groups.identical.length > 0 ? (
+              <section className="space-y-2">
+                <h3 className="flex items-center gap-2 font-medium">
+                  <Check className="h-4 w-4" /> Identical, will be skipped ({groups.identical.length})
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {groups.identical.map(({ incoming }) => (
+                    <Badge key={incoming.id} variant="outline">
+                      {incoming.title}
+                    </Badge>
+                  ))}
+                </div>
+              </section>
+            ) : null}
+
+            {preview && preview.rejected.length > 0 ? (
+              <section className="space-y-2">
+                <h3 className="flex items-center gap-2 font-medium text-red-600">
+                  <AlertTriangle className="h-4 w-4" /> Rejected ({preview.rejected.length})
+                </h3>
+                <ul className="space-y-2 rounded-md border border-red-500/40 p-2 text-xs">
+                  {preview.rejected.map((r) => (
+                    <li key={r.index}>
+                      <div className="font-medium">
+                        {`Record #${r.index + 1}`}
+                        {r.title ? ` "${r.title}"` : ""}
+                        {r.id ? ` (id ${r.id})` : ""}
+                      </div>
+                      <ul className="ml-4 list-disc text-muted-foreground">
+                        {r.reasons.map((reason, i) => (
+                          <li key={i}>{reason}</li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ) : null}
+          </div>
+
+          <DialogFooter className="gap-2 border-t px-6 py-4">
+            <Button variant="secondary" type="button" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              disabled={importable === 0}
+              onClick={() => {
+                onConfirm(resolutions)
+                setOpen(false)
+              }}
+            >
+              Import
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
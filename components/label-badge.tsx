@@ -0,0 +1,74 @@
+import { Badge } from "@/components/ui/badge"
+import type { LabelStyle } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import {
+  BookOpen,
+  Bot,
+  Briefcase,
+  Code,
+  FlaskConical,
+  Folder,
+  Globe,
+  Lightbulb,
+  Mail,
+  Megaphone,
+  PenLine,
+  Search,
+  Star,
+  Tag,
+  type LucideIcon,
+} from "lucide-react"
+
+export const LABEL_COLORS: Record<string, string> = {
+  gray: "border-gray-300 bg-gray-100 text-gray-800 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-200",
+  red: "border-red-200 bg-red-100 text-red-800 dark:border-red-900 dark:bg-red-950 dark:text-red-200",
+  orange: "border-orange-200 bg-orange-100 text-orange-800 dark:border-orange-900 dark:bg-orange-950 dark:text-orange-200",
+  amber: "border-amber-200 bg-amber-100 text-amber-800 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200",
+  green: "border-green-200 bg-green-100 text-green-800 dark:border-green-900 dark:bg-green-950 dark:text-green-200",
+  teal: "border-teal-200 bg-teal-100 text-teal-800 dark:border-teal-900 dark:bg-teal-950 dark:text-teal-200",
+  blue: "border-blue-200 bg-blue-100 text-blue-800 dark:border-blue-900 dark:bg-blue-950 dark:text-blue-200",
+  indigo: "border-indigo-200 bg-indigo-100 text-indigo-800 dark:border-indigo-900 dark:bg-indigo-950 dark:text-indigo-200",
+  purple: "border-purple-200 bg-purple-100 text-purple-800 dark:border-purple-900 dark:bg-purple-950 dark:text-purple-200",
+  pink: "border-pink-200 bg-pink-100 text-pink-800 dark:border-pink-900 dark:bg-pink-950 dark:text-pink-200",
+}
+
+export const LABEL_ICONS: Record<string, LucideIcon> = {
+  folder: Folder,
+  tag: Tag,
+  star: Star,
+  code: Code,
+  mail: Mail,
+  megaphone: Megaphone,
+  search: Search,
+  book: BookOpen,
+  lightbulb: Lightbulb,
+  flask: FlaskConical,
+  pen: PenLine,
+  bot: Bot,
+  briefcase: Briefcase,
+  globe: Globe,
+}
+
+export function LabelBadge({
+  kind,
+  label,
+  style,
+  className,
+}: {
+  kind: "category" | "tag"
+  label: string
+  style?: LabelStyle
+  className?: string
+}) {
+  const Icon = (style?.icon && LABEL_ICONS[style.icon]) || (kind === "category" ? Folder : Tag)
+  const color = style?.color ? LABEL_COLORS[style.color] : undefined
+  return (
+    <Badge
+      variant={kind === "category" ? "outline" : "secondary"}
+      className={cn("flex items-center gap-1", color, className)}
+    >
+      <Icon className="h-3 w-3" />
+      {label}
+    </Badge>
+  )
+}
@@ -0,0 +1,308 @@
+"use client"
+
+import { useState } from "react"
+import { LABEL_COLORS, LABEL_ICONS, LabelBadge } from "@/components/label-badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { CategoryNode } from "@/lib/categories"
+import { findDuplicates } from "@/lib/labels"
+import type { LabelStyle, LabelStyles } from "@/lib/types"
+import { cn, normalizeCategory, normalizeTag } from "@/lib/utils"
+import { ArrowLeft, Combine, Edit, MoreHorizontal, Palette, Trash } from "lucide-react"
+
+type Kind = "category" | "tag"
+
+// Select items cannot have an empty value, so "no replacement" gets a sentinel.
+const NONE = "__none__"
+
+type Action = { type: "rename" | "delete"; kind: Kind; name: string }
+
+export function LabelManager({
+  categories,
+  tagCounts,
+  styles,
+  onRenameCategory,
+  onDeleteCategory,
+  onRenameTag,
+  onMergeTags,
+  onDeleteTag,
+  onStyle,
+  onClose,
+}: {
+  categories: CategoryNode[]
+  tagCounts: [string, number][]
+  styles: LabelStyles
+  onRenameCategory: (from: string, to: string) => void
+  onDeleteCategory: (path: string, reassignTo: string | null) => void
+  onRenameTag: (from: string, to: string) => void
+  onMergeTags: (sources: string[], target: string) => void
+  onDeleteTag: (tag: string, replacement: string | null) => void
+  onStyle: (kind: Kind, name: string, style: LabelStyle) => void
+  onClose: () => void
+}) {
+  const [tab, setTab] = useState<Kind>("category")
+  const [action, setAction] = useState<Action | null>(null)
+  const [value, setValue] = useState("")
+
+  const categoryPaths = categories.map((c) => c.path)
+  const tagNames = tagCounts.map(([t]) => t)
+  const tagCount = new Map(tagCounts)
+  const categoryTotal = new Map(categories.map((c) => [c.path, c.total]))
+  const names = tab === "category" ? categoryPaths : tagNames
+  const duplicates = findDuplicates(names)
+  const usage = (kind: Kind, name: string) => (kind === "category" ? categoryTotal.get(name) : tagCount.get(name)) || 0
+
+  function open(type: Action["type"], kind: Kind, name: string) {
+    setAction({ type, kind, name })
+    setValue(type === "rename" ? name : NONE)
+  }
+
+  // Merges a duplicate group into its most used spelling.
+  function mergeGroup(group: string[]) {
+    const target = [...group].sort((a, b) => usage(tab, b) - usage(tab, a))[0]
+    const sources = group.filter((n) => n !== target)
+    if (tab === "tag") onMergeTags(sources, target)
+    else sources.forEach((s) => onRenameCategory(s, target))
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!action) return
+    const { type, kind, name } = action
+    if (type === "rename") {
+      const next = kind === "category" ? normalizeCategory(value) : normalizeTag(value)
+      if (!next || next === name) return
+      if (kind === "category") onRenameCategory(name, next)
+      else onRenameTag(name, next)
+    } else {
+      const target = value === NONE ? null : value
+      if (kind === "category") onDeleteCategory(name, target)
+      else onDeleteTag(name, target)
+    }
+    setAction(null)
+  }
+
+  const renameTarget = action?.type === "rename" ? (action.kind === "category" ? normalizeCategory(value) : normalizeTag(value)) : ""
+  const mergesInto =
+    action?.type === "rename" && renameTarget !== action.name && (action.kind === "category" ? categoryPaths : tagNames).includes(renameTarget)
+  const reassignOptions =
+    action?.type === "delete"
+      ? action.kind === "category"
+        ? categoryPaths.filter((p) => p !== action.name && !p.startsWith(`${action.name}/`))
+        : tagNames.filter((t) => t !== action.name)
+      : []
+
+  function row(kind: Kind, name: string, label: string, count: number, depth = 0) {
+    const style = (kind === "category" ? styles.categories : styles.tags)[name] || {}
+    return (
+      <div key={name} className="flex items-center gap-2 rounded-md border bg-card px-3 py-2 text-sm">
+        <div className="flex min-w-0 flex-1 items-center gap-2" style={{ paddingLeft: depth * 16 }}>
+          <LabelBadge kind={kind} label={label} style={style} className="max-w-full truncate" />
+        </div>
+        <span className="w-24 text-right text-xs text-muted-foreground">
+          {count} prompt{count === 1 ? "" : "s"}
+        </span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Style for ${name}`}>
+              <Palette className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Color</DropdownMenuLabel>
+            <div className="grid grid-cols-5 gap-1 px-2 pb-2">
+              {Object.keys(LABEL_COLORS).map((c) => (
+                <button
+                  key={c}
+                  className={cn(
+                    "h-6 rounded border",
+                    LABEL_COLORS[c],
+                    style.color === c && "ring-2 ring-primary ring-offset-1",
+                  )}
+                  onClick={() => onStyle(kind, name, { ...style, color: style.color === c ? undefined : c })}
+                  aria-label={`Color ${c}`}
+                  aria-pressed={style.color === c}
+                />
+              ))}
+            </div>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Icon</DropdownMenuLabel>
+            <div className="grid grid-cols-7 gap-1 px-2 pb-2">
+              {Object.entries(LABEL_ICONS).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  className={cn(
+                    "flex h-6 items-center justify-center rounded hover:bg-muted",
+                    style.icon === key && "bg-muted ring-2 ring-primary",
+                  )}
+                  onClick={() => onStyle(kind, name, { ...style, icon: style.icon === key ? undefined : key })}
+                  aria-label={`Icon ${key}`}
+                  aria-pressed={style.icon === key}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </button>
+              ))}
+            </div>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onStyle(kind, name, {})}>Reset style</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Actions for ${name}`}>
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => open("rename", kind, name)}>
+              <Edit className="mr-2 h-4 w-4" /> Rename or merge…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => open("delete", kind, name)} className="text-red-600">
+              <Trash className="mr-2 h-4 w-4" /> Delete…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    )
+  }
+
+  return (
+    <section className="grid gap-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to library
+        </Button>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant={tab === "category" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setTab("category")}
+            aria-pressed={tab === "category"}
+          >
+            Categories ({categoryPaths.length})
+          </Button>
+          <Button
+            variant={tab === "tag" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setTab("tag")}
+            aria-pressed={tab === "tag"}
+          >
+            Tags ({tagNames.length})
+          </Button>
+        </div>
+      </div>
+
+      {duplicates.length > 0 ? (
+        <div className="grid gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-900 dark:bg-amber-950/40">
+          <p className="font-medium">Possible duplicates</p>
+          {duplicates.map((group) => (
+            <div key={group.join("|")} className="flex flex-wrap items-center gap-2">
+              {group.map((n) => (
+                <span key={n} className="rounded border bg-background px-2 py-0.5 font-mono text-xs">
+                  {n} ({usage(tab, n)})
+                </span>
+              ))}
+              <Button variant="outline" size="sm" className="ml-auto" onClick={() => mergeGroup(group)}>
+                <Combine className="mr-2 h-4 w-4" />
+                Merge
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="grid gap-2">
+        {tab === "category"
+          ? categories.map((c) => row("category", c.path, c.name, c.total, c.depth))
+          : tagCounts.map(([t, n]) => row("tag", t, t, n))}
+        {names.length === 0 ? (
+          <p className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+            No {tab === "category" ? "categories" : "tags"} yet.
+          </p>
+        ) : null}
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={(v) => !v && setAction(null)}>
+        <DialogContent className="sm:max-w-md">
+          {action ? (
+            <form className="grid gap-4" onSubmit={submit}>
+              <DialogHeader>
+                <DialogTitle>
+                  {action.type === "rename" ? "Rename" : "Delete"} {action.kind} “{action.name}”
+                </DialogTitle>
+                <DialogDescription>
+                  {action.type === "rename"
+                    ? `Updates ${usage(action.kind, action.name)} prompts.${action.kind === "category" ? " Subfolders move along." : ""}`
+                    : `${usage(action.kind, action.name)} prompts use it. Choose what they get instead.`}
+                </DialogDescription>
+              </DialogHeader>
+              {action.type === "rename" ? (
+                <div className="grid gap-2">
+                  <Label htmlFor="label-name">New name</Label>
+                  <Input
+                    id="label-name"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    list="label-name-options"
+                    autoFocus
+                  />
+                  <datalist id="label-name-options">
+                    {(action.kind === "category" ? categoryPaths : tagNames).map((n) => (
+                      <option key={n} value={n} />
+                    ))}
+                  </datalist>
+                  {mergesInto ? (
+                    <p className="text-xs text-muted-foreground">“{renameTarget}” exists; the two will be merged.</p>
+                  ) : null}
+                </div>
+              ) : (
+                <div className="grid gap-2">
+                  <Label>Reassign to</Label>
+                  <Select value={value} onValueChange={setValue}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>{action.kind === "category" ? "Uncategorized" : "Nothing (remove tag)"}</SelectItem>
+                      {reassignOptions.map((o) => (
+                        <SelectItem key={o} value={o}>
+                          {o}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <DialogFooter>
+                <Button variant="secondary" type="button" onClick={() => setAction(null)}>
+                  Cancel
+                </Button>
+                {action.type === "rename" ? (
+                  <Button type="submit" disabled={!renameTarget || renameTarget === action.name}>
+                    {mergesInto ? "Merge" : "Rename"}
+                  </Button>
+                ) : (
+                  <Button type="submit" variant="destructive">
+                    Delete
+                  </Button>
+                )}
+              </DialogFooter>
+            </form>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </section>
+  )
+}
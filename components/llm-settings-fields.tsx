@@ -0,0 +1,116 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { normalizeLlmSettings } from "@/lib/llm"
+import type { LlmSettings } from "@/lib/types"
+
+// Numbers are edited as text so a half-typed "0." is not reformatted under the cursor.
+export type LlmDraft = Omit<LlmSettings, "temperature" | "maxTokens"> & { temperature: string; maxTokens: string }
+
+export function toLlmDraft(settings: LlmSettings): LlmDraft {
+  return { ...settings, temperature: String(settings.temperature), maxTokens: String(settings.maxTokens) }
+}
+
+// The settings the draft describes, or null while any field is invalid.
+export function parseLlmDraft(draft: LlmDraft): LlmSettings | null {
+  const temperature = Number(draft.temperature)
+  const maxTokens = Number(draft.maxTokens)
+  if (!draft.baseUrl.trim() || !draft.model.trim() || !draft.temperature.trim()) return null
+  if (!(temperature >= 0 && temperature <= 2) || !(Number.isInteger(maxTokens) && maxTokens > 0)) return null
+  return normalizeLlmSettings({ ...draft, temperature, maxTokens })
+}
+
+// Model parameters, with the endpoint folded away since it rarely changes.
+export function LlmSettingsFields({
+  draft,
+  onChange,
+  idPrefix,
+}: {
+  draft: LlmDraft
+  onChange: (draft: LlmDraft) => void
+  idPrefix: string
+}) {
+  const set = (patch: Partial<LlmDraft>) => onChange({ ...draft, ...patch })
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid gap-2 sm:grid-cols-[1fr_110px_110px]">
+        <div className="grid gap-1">
+          <Label htmlFor={`${idPrefix}-model`} className="text-xs">
+            Model
+          </Label>
+          <Input
+            id={`${idPrefix}-model`}
+            value={draft.model}
+            onChange={(e) => set({ model: e.target.value })}
+            placeholder="llama3.2"
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor={`${idPrefix}-temperature`} className="text-xs">
+            Temperature
+          </Label>
+          <Input
+            id={`${idPrefix}-temperature`}
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={draft.temperature}
+            onChange={(e) => set({ temperature: e.target.value })}
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor={`${idPrefix}-max-tokens`} className="text-xs">
+            Max tokens
+          </Label>
+          <Input
+            id={`${idPrefix}-max-tokens`}
+            type="number"
+            min={1}
+            step={1}
+            value={draft.maxTokens}
+            onChange={(e) => set({ maxTokens: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-xs text-muted-foreground">
+          Endpoint: {draft.baseUrl || "not set"}
+        </summary>
+        <div className="mt-2 grid gap-2 sm:grid-cols-2">
+          <div className="grid gap-1">
+            <Label htmlFor={`${idPrefix}-base-url`} className="text-xs">
+              Base URL (OpenAI-compatible)
+            </Label>
+            <Input
+              id={`${idPrefix}-base-url`}
+              value={draft.baseUrl}
+              onChange={(e) => set({ baseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+            />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor={`${idPrefix}-api-key`} className="text-xs">
+              API key
+            </Label>
+            <Input
+              id={`${idPrefix}-api-key`}
+              type="password"
+              autoComplete="off"
+              value={draft.apiKey}
+              onChange={(e) => set({ apiKey: e.target.value })}
+              placeholder="Not needed for local servers"
+            />
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Requests go straight from this browser to the endpoint. The key is stored with this workspace on this device
+          only.
+        </p>
+      </details>
+    </div>
+  )
+}
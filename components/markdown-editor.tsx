@@ -0,0 +1,257 @@
+"use client"
+
+import { useMemo, useRef } from "react"
+import { MarkdownPreview } from "@/components/markdown-preview"
+import { Button } from "@/components/ui/button"
+import {
+  continueList,
+  highlightMarkdown,
+  insertBlock,
+  prefixLines,
+  wrapSelection,
+  type MarkdownLine,
+  type MarkdownTokenKind,
+  type TextEdit,
+} from "@/lib/markdown"
+import { cn } from "@/lib/utils"
+import {
+  Bold,
+  Braces,
+  Code,
+  Heading2,
+  Italic,
+  Link2,
+  List,
+  ListOrdered,
+  Quote,
+  SquareCode,
+  Strikethrough,
+} from "lucide-react"
+
+export type EditorMode = "write" | "split" | "preview"
+
+const MODES: { id: EditorMode; label: string }[] = [
+  { id: "write", label: "Write" },
+  { id: "split", label: "Split" },
+  { id: "preview", label: "Preview" },
+]
+
+type Action = {
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+  // Letter pressed with Ctrl or ⌘.
+  key?: string
+  edit: (value: string, start: number, end: number) => TextEdit
+}
+
+const ACTIONS: Action[] = [
+  { label: "Heading", icon: Heading2, edit: (v, s, e) => prefixLines(v, s, e, "## ", /^#{1,6}\s/) },
+  { label: "Bold", icon: Bold, key: "b", edit: (v, s, e) => wrapSelection(v, s, e, "**") },
+  { label: "Italic", icon: Italic, key: "i", edit: (v, s, e) => wrapSelection(v, s, e, "_") },
+  { label: "Strikethrough", icon: Strikethrough, edit: (v, s, e) => wrapSelection(v, s, e, "~~") },
+  { label: "Inline code", icon: Code, edit: (v, s, e) => wrapSelection(v, s, e, "`", "`", "code") },
+  { label: "Code block", icon: SquareCode, edit: (v, s, e) => insertBlock(v, s, e, "```", "```") },
+  { label: "Bulleted list", icon: List, edit: (v, s, e) => prefixLines(v, s, e, "- ", /^\s*[-*+]\s/) },
+  {
+    label: "Numbered list",
+    icon: ListOrdered,
+    edit: (v, s, e) => prefixLines(v, s, e, (i) => `${i + 1}. `, /^\s*\d+[.)]\s/),
+  },
+  { label: "Quote", icon: Quote, edit: (v, s, e) => prefixLines(v, s, e, "> ", /^\s*>\s?/) },
+  { label: "Link", icon: Link2, key: "k", edit: (v, s, e) => wrapSelection(v, s, e, "[", "](https://)", "link text") },
+  { label: "Variable", icon: Braces, edit: (v, s, e) => wrapSelection(v, s, e, "{{", "}}", "name") },
+]
+
+const LINE_CLASS: Record<MarkdownLine["kind"], string> = {
+  text: "",
+  heading: "font-semibold",
+  quote: "text-muted-foreground",
+  fence: "text-muted-foreground",
+  code: "bg-muted/50",
+  rule: "text-muted-foreground",
+}
+
+// Colors and weights only: anything that changes a glyph's width would drift from the caret.
+const TOKEN_CLASS: Record<MarkdownTokenKind, string> = {
+  marker: "text-muted-foreground",
+  strong: "font-semibold",
+  em: "italic",
+  strike: "text-muted-foreground line-through",
+  "inline-code": "rounded-sm bg-muted text-pink-700 dark:text-pink-400",
+  link: "text-blue-700 dark:text-blue-400",
+  variable: "rounded-sm bg-sky-500/15 text-sky-800 dark:text-sky-300",
+  include: "rounded-sm bg-violet-500/15 text-violet-800 dark:text-violet-300",
+}
+
+const isMac = typeof navigator !== "undefined" && /Mac|iP(hone|ad)/.test(navigator.platform)
+
+// A textarea laid over its own highlighted copy: the text is transparent so only the caret and
+// selection show, and the copy underneath wraps exactly the same way. Both grow with the text
+// and scroll together in the outer box, which is what keeps them lined up.
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  mode,
+  onModeChange,
+  placeholder,
+  invalid,
+}: {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  mode: EditorMode
+  onModeChange: (mode: EditorMode) => void
+  placeholder?: string
+  // Not `required`: the textarea is hidden in preview mode, where the browser can't point at it.
+  invalid?: boolean
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+  const lines = useMemo(() => highlightMarkdown(value), [value])
+
+  function apply(edit: TextEdit) {
+    const el = textareaRef.current
+    if (!el) return
+    // Replace only the part that changed, through the browser's own editing so Ctrl+Z can undo it.
+    let from = 0
+    while (from < value.length && from < edit.value.length && value[from] === edit.value[from]) from++
+    let tail = 0
+    while (
+      tail < value.length - from &&
+      tail < edit.value.length - from &&
+      value[value.length - 1 - tail] === edit.value[edit.value.length - 1 - tail]
+    ) {
+      tail++
+    }
+    el.focus()
+    el.setSelectionRange(from, value.length - tail)
+    const inserted = document.execCommand("insertText", false, edit.value.slice(from, edit.value.length - tail))
+    if (!inserted) onChange(edit.value)
+    requestAnimationFrame(() => el.setSelectionRange(edit.selectionStart, edit.selectionEnd))
+  }
+
+  function run(action: Action) {
+    const el = textareaRef.current
+    if (!el) return
+    apply(action.edit(value, el.selectionStart, el.selectionEnd))
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (e.nativeEvent.isComposing) return
+    const el = e.currentTarget
+    if (e.key === "Enter" && !e.shiftKey && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      const edit = continueList(value, el.selectionStart, el.selectionEnd)
+      if (edit) {
+        e.preventDefault()
+        apply(edit)
+      }
+      return
+    }
+    if (!(isMac ? e.metaKey : e.ctrlKey) || e.altKey || e.shiftKey) return
+    const action = ACTIONS.find((a) => a.key === e.key.toLowerCase())
+    if (action) {
+      e.preventDefault()
+      run(action)
+    }
+  }
+
+  const mod = isMac ? "⌘" : "Ctrl+"
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center gap-0.5 rounded-md border bg-muted/30 p-1">
+        <div role="toolbar" aria-label="Formatting" className="flex flex-wrap items-center gap-0.5">
+          {ACTIONS.map((a) => (
+            <Button
+              key={a.label}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => run(a)}
+              disabled={mode === "preview"}
+              aria-label={a.label}
+              title={a.key ? `${a.label} (${mod}${a.key.toUpperCase()})` : a.label}
+            >
+              <a.icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+        <div className="ml-auto flex items-center gap-0.5">
+          {MODES.map((m) => (
+            <Button
+              key={m.id}
+              type="button"
+              variant={mode === m.id ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7"
+              onClick={() => onModeChange(m.id)}
+              aria-pressed={mode === m.id}
+            >
+              {m.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className={cn("grid gap-2", mode === "split" && "md:grid-cols-2")}>
+        {/* Hidden rather than unmounted in preview mode, so the field still takes part in the form. */}
+        <div
+          className={cn(
+            "max-h-[50vh] overflow-auto rounded-md border bg-background font-mono text-sm leading-6",
+            "focus-within:border-ring focus-within:ring-[3px] focus-within:ring-ring/50",
+            invalid && "border-destructive",
+            mode === "preview" && "hidden",
+          )}
+        >
+          <div className="relative min-h-72">
+            <div aria-hidden className="pointer-events-none py-2 pr-3">
+              {lines.map((line, i) => (
+                <div key={i} className={cn("flex", LINE_CLASS[line.kind])}>
+                  <span className="w-12 shrink-0 select-none pr-3 text-right text-muted-foreground/60">{i + 1}</span>
+                  <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">
+                    {line.tokens.length === 0
+                      ? " "
+                      : line.tokens.map((t, j) =>
+                          t.kind ? (
+                            <span key={j} className={TOKEN_CLASS[t.kind]}>
+                              {t.text}
+                            </span>
+                          ) : (
+                            t.text
+                          ),
+                        )}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <textarea
+              ref={textareaRef}
+              id={id}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={placeholder}
+              aria-invalid={invalid || undefined}
+              spellCheck={false}
+              className={cn(
+                "absolute inset-0 h-full w-full resize-none overflow-hidden bg-transparent py-2 pr-3 pl-12",
+                "whitespace-pre-wrap break-words text-transparent caret-foreground outline-none",
+                "selection:bg-primary/20 placeholder:text-muted-foreground",
+              )}
+            />
+          </div>
+        </div>
+        {mode !== "write" ? (
+          <div className="max-h-[50vh] min-h-72 overflow-auto rounded-md border p-3">
+            {value.trim() ? (
+              <MarkdownPreview content={value} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
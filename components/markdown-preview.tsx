@@ -0,0 +1,122 @@
+"use client"
+
+import Markdown, { type Components } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import { cn } from "@/lib/utils"
+
+// Just enough of the Markdown syntax tree to find raw HTML.
+type MdastNode = {
+  type: string
+  value?: string
+  children?: MdastNode[]
+  data?: { hProperties?: Record<string, unknown> }
+}
+
+const INLINE_PARENTS = new Set(["paragraph", "heading", "emphasis", "strong", "delete", "link", "tableCell"])
+
+// Prompts often use XML-style tags like <context>, which would otherwise vanish from the
+// preview. They are kept as literal text instead; block-level ones keep their line breaks.
+function remarkHtmlAsText() {
+  function visit(node: MdastNode) {
+    node.children = node.children?.map((child) => {
+      if (child.type !== "html") {
+        visit(child)
+        return child
+      }
+      const text = { type: "text", value: child.value }
+      if (INLINE_PARENTS.has(node.type)) return text
+      return { type: "paragraph", children: [text], data: { hProperties: { className: ["whitespace-pre-wrap"] } } }
+    })
+  }
+  return (tree: MdastNode) => visit(tree)
+}
+
+// Just enough of the HTML syntax tree to mark variables in text nodes.
+type HastNode = {
+  type: string
+  tagName?: string
+  value?: string
+  properties?: Record<string, unknown>
+  children?: HastNode[]
+}
+
+const VARIABLE_RE = /\{\{[^{}]*\}\}/g
+
+// Wraps `{{name}}` and `{{> include}}` in spans so they stand out from the prose around them.
+function rehypeVariables() {
+  function visit(node: HastNode) {
+    if (!node.children) return
+    node.children = node.children.flatMap((child): HastNode[] => {
+      if (child.type !== "text" || !child.value?.includes("{{")) {
+        visit(child)
+        return [child]
+      }
+      const parts: HastNode[] = []
+      let last = 0
+      for (const m of child.value.matchAll(VARIABLE_RE)) {
+        if (m.index! > last) parts.push({ type: "text", value: child.value.slice(last, m.index) })
+        const include = m[0].startsWith("{{>")
+        parts.push({
+          type: "element",
+          tagName: "span",
+          properties: { className: [include ? "md-include" : "md-variable"] },
+          children: [{ type: "text", value: m[0] }],
+        })
+        last = m.index! + m[0].length
+      }
+      if (last < child.value.length) parts.push({ type: "text", value: child.value.slice(last) })
+      return parts
+    })
+  }
+  return (tree: HastNode) => visit(tree)
+}
+
+const components: Components = {
+  h1: ({ node: _node, ...props }) => <h1 className="mt-4 mb-2 text-xl font-semibold first:mt-0" {...props} />,
+  h2: ({ node: _node, ...props }) => <h2 className="mt-4 mb-2 text-lg font-semibold first:mt-0" {...props} />,
+  h3: ({ node: _node, ...props }) => <h3 className="mt-3 mb-1.5 text-base font-semibold first:mt-0" {...props} />,
+  h4: ({ node: _node, ...props }) => <h4 className="mt-3 mb-1 text-sm font-semibold first:mt-0" {...props} />,
+  p: ({ node: _node, className, ...props }) => <p className={cn("my-2 first:mt-0 last:mb-0", className)} {...props} />,
+  ul: ({ node: _node, ...props }) => <ul className="my-2 list-disc space-y-1 pl-6" {...props} />,
+  ol: ({ node: _node, ...props }) => <ol className="my-2 list-decimal space-y-1 pl-6" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote className="my-2 border-l-2 pl-3 text-muted-foreground" {...props} />
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a className="text-primary underline underline-offset-2" target="_blank" rel="noreferrer" {...props} />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre
+      className="my-2 overflow-x-auto rounded-md border bg-muted/50 p-3 font-mono text-xs leading-relaxed"
+      {...props}
+    />
+  ),
+  hr: ({ node: _node, ...props }) => <hr className="my-4" {...props} />,
+  table: ({ node: _node, ...props }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-xs" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => <th className="border px-2 py-1 text-left font-medium" {...props} />,
+  td: ({ node: _node, ...props }) => <td className="border px-2 py-1" {...props} />,
+}
+
+// Prompt content rendered as Markdown. Raw HTML in the source is shown as text, never rendered.
+export function MarkdownPreview({ content, className }: { content: string; className?: string }) {
+  return (
+    <div
+      className={cn(
+        "text-sm leading-relaxed break-words",
+        // Inline code only; fenced blocks are styled by their <pre>.
+        "[&_:not(pre)>code]:rounded [&_:not(pre)>code]:bg-muted [&_:not(pre)>code]:px-1 [&_:not(pre)>code]:font-mono",
+        "[&_.md-include]:rounded [&_.md-include]:bg-violet-500/15 [&_.md-include]:px-0.5 [&_.md-include]:font-mono",
+        "[&_.md-variable]:rounded [&_.md-variable]:bg-sky-500/15 [&_.md-variable]:px-0.5 [&_.md-variable]:font-mono",
+        className,
+      )}
+    >
+      <Markdown remarkPlugins={[remarkGfm, remarkHtmlAsText]} rehypePlugins={[rehypeVariables]} components={components}>
+        {content}
+      </Markdown>
+    </div>
+  )
+}
@@ -0,0 +1,2811 @@
+"use client"
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { ToastAction } from "@/components/ui/toast"
+import { useRemoteSync } from "@/hooks/use-remote-sync"
+import { useToast } from "@/hooks/use-toast"
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts"
+import { useUrlState } from "@/hooks/use-url-state"
+import { useTokenCounter } from "@/hooks/use-token-counter"
+import { useWorkspaces, type WorkspacesState } from "@/hooks/use-workspaces"
+import { cn, normalizeCategory, normalizeTag, now, slugify, uid } from "@/lib/utils"
+import {
+  Copy,
+  Download,
+  Edit,
+  Filter,
+  Folder,
+  ListFilter,
+  Link2,
+  Settings2,
+  ListChecks,
+  MoreHorizontal,
+  Plus,
+  Search,
+  Star,
+  Tag,
+  Trash,
+  Undo2,
+  Upload,
+  X,
+  Eye,
+  Check,
+  Keyboard,
+  Laptop2,
+  Layers,
+  Library,
+  Moon,
+  Sun,
+  Workflow,
+  Coins,
+  Play,
+  FlaskConical,
+  GitCompare,
+  BarChart3,
+} from "lucide-react"
+import { useTheme } from "next-themes"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { CommandPalette, type PaletteCommand } from "@/components/command-palette"
+import { ShortcutHelp } from "@/components/shortcut-help"
+import { BulkActionsBar, type BulkTagChange } from "@/components/bulk-actions-bar"
+import { ImportPreviewDialog } from "@/components/import-preview-dialog"
+import { RevisionHistory } from "@/components/revision-history"
+import { SyncToggle } from "@/components/sync-toggle"
+import { TagInput, type TagInputHandle } from "@/components/tag-input"
+import { TrashView } from "@/components/trash-view"
+import { Highlight } from "@/components/highlight"
+import { SmartCollections } from "@/components/smart-collections"
+import { CategoryTree, PROMPT_DRAG_TYPE } from "@/components/category-tree"
+import { ChainsView } from "@/components/chains-view"
+import { LabelBadge } from "@/components/label-badge"
+import { LabelManager } from "@/components/label-manager"
+import { MarkdownEditor, type EditorMode } from "@/components/markdown-editor"
+import { MarkdownPreview } from "@/components/markdown-preview"
+import { PromptPlayground } from "@/components/prompt-playground"
+import { PromptStats } from "@/components/prompt-stats"
+import { PromptTestsDialog } from "@/components/prompt-tests"
+import { TokenSettingsDialog } from "@/components/token-settings-dialog"
+import { UsageAnalytics } from "@/components/usage-analytics"
+import { VariantCompareDialog } from "@/components/variant-compare"
+import { VariableFillDialog } from "@/components/variable-fill-dialog"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import {
+  buildExportFile,
+  FORMATS,
+  parseLibraryFile,
+  serializeLibrary,
+  type ExportScope,
+  type LibraryFormat,
+} from "@/lib/formats"
+import {
+  ALL_CATEGORIES,
+  buildCategoryTree,
+  flattenCategoryTree,
+  isInCategory,
+  UNCATEGORIZED,
+} from "@/lib/categories"
+import { addRun } from "@/lib/chains"
+import { addTestReport, passCount, setTestCases } from "@/lib/evals"
+import {
+  countTags,
+  EMPTY_LABEL_STYLES,
+  mergeLabelStyles,
+  removeCategoryFromList,
+  renameCategoryInList,
+  renameCategoryPath,
+  renameStyles,
+  replaceTags,
+} from "@/lib/labels"
+import {
+  HISTORY_LIMIT,
+  moveToTrash,
+  recordChange,
+  restoreFromTrash,
+  revertChange,
+  type HistoryEntry,
+  type LabelsSnapshot,
+} from "@/lib/history"
+import { applyImport, buildImportPreview, ImportFileError, mergeCollections, type ConflictResolution, type ImportPreview } from "@/lib/import"
+import { addPromptRun, DEFAULT_LLM_SETTINGS, normalizeLlmSettings } from "@/lib/llm"
+import { initialRevision, revisePrompt } from "@/lib/revisions"
+import { loadLibrary, StorageError, writeMeta, writePrompts, type LibraryMeta } from "@/lib/storage"
+import { broadcast, subscribe, type LibraryMessage } from "@/lib/storage/channel"
+import { buildSearchIndex, hasText, parseQuery, search, snippet, type Range, type SearchHit, type SearchIndex } from "@/lib/search"
+import { mergeNotes } from "@/lib/sync"
+import { hasVariables, parseVariables } from "@/lib/template"
+import {
+  buildHandleMap,
+  expandIncludes,
+  findUsages,
+  hasIncludes,
+  includeTag,
+  normalizeHandle,
+  parseIncludes,
+  renameIncludes,
+  type Expansion,
+} from "@/lib/includes"
+import {
+  DEFAULT_TOKEN_SETTINGS,
+  estimateCost,
+  formatCost,
+  formatCount,
+  normalizeTokenSettings,
+  selectedModel,
+  textStats,
+} from "@/lib/tokens"
+import { mergeUsageEvents, recordUse } from "@/lib/usage"
+import { mergeAsVariants, promoteVariant, rateRun } from "@/lib/variants"
+import { copyForWorkspace, DEFAULT_WORKSPACE_ID } from "@/lib/workspaces"
+import type {
+  Chain,
+  ChainRun,
+  ExportFile,
+  LabelStyle,
+  LabelStyles,
+  LlmSettings,
+  ModelPrice,
+  Prompt,
+  PromptRevision,
+  PromptRun,
+  PromptTestCase,
+  SavedFilters,
+  SmartCollection,
+  SortOrder,
+  TestReport,
+  TokenSettings,
+  UsageEvent,
+  VariableValues,
+} from "@/lib/types"
+
+function deriveUsedTags(prompts: Prompt[]) {
+  const set = new Set<string>()
+  for (const p of prompts) {
+    for (const t of p.tags) {
+      const n = normalizeTag(t)
+      if (n) set.add(n)
+    }
+  }
+  return Array.from(set).sort((a, b) => a.localeCompare(b))
+}
+
+function useLocalStore(workspace: string) {
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [categories, setCategories] = useState<string[]>([])
+  const [tags, setTags] = useState<string[]>([])
+  const [collections, setCollections] = useState<SmartCollection[]>([])
+  const [labelStyles, setLabelStyles] = useState<LabelStyles>(EMPTY_LABEL_STYLES)
+  const [chains, setChains] = useState<Chain[]>([])
+  const [chainRuns, setChainRuns] = useState<ChainRun[]>([])
+  const [tokenSettings, setTokenSettings] = useState<TokenSettings>(DEFAULT_TOKEN_SETTINGS)
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS)
+  const [variableValues, setVariableValues] = useState<VariableValues>({})
+  const [usageEvents, setUsageEvents] = useState<UsageEvent[]>([])
+  const [author, setAuthor] = useState("")
+  const [syncMode, setSyncMode] = useState<LibraryMeta["syncMode"]>("local")
+  // Meta as read from storage; stays null when loading failed so nothing is overwritten.
+  const [storedMeta, setStoredMeta] = useState<Partial<LibraryMeta> | null>(null)
+  const [storageError, setStorageError] = useState<StorageError | null>(null)
+  // Last prompt objects written to storage, used to write only what changed.
+  const persistedRef = useRef<Map<string, Prompt>>(new Map())
+  // Serialized meta values last written (or received from another tab), per key.
+  const persistedMetaRef = useRef<Partial<Record<keyof LibraryMeta, string>>>({})
+  const promptsRef = useRef(prompts)
+  promptsRef.current = prompts
+  // Undoable prompt changes made in this session, newest first.
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const historyRef = useRef(history)
+  historyRef.current = history
+
+  function reportError(err: unknown) {
+    setStorageError(err instanceof StorageError ? err : new StorageError("access storage", String(err)))
+  }
+
+  useEffect(() => {
+    let cancelled = false
+    loadLibrary(workspace)
+      .then(({ prompts: p, meta }) => {
+        if (cancelled) return
+        persistedRef.current = new Map(p.map((x) => [x.id, x]))
+        const c = Array.isArray(meta.categories) ? meta.categories : []
+        const t = Array.isArray(meta.tags) ? meta.tags : []
+        setPrompts(p)
+        setCategories(c)
+        setTags(t)
+        if (Array.isArray(meta.collections)) setCollections(meta.collections)
+        if (meta.labelStyles) setLabelStyles(meta.labelStyles)
+        if (Array.isArray(meta.chains)) setChains(meta.chains)
+        if (Array.isArray(meta.chainRuns)) setChainRuns(meta.chainRuns)
+        if (meta.tokenSettings) setTokenSettings(normalizeTokenSettings(meta.tokenSettings))
+        if (meta.llmSettings) setLlmSettings(normalizeLlmSettings(meta.llmSettings))
+        if (meta.variableValues) setVariableValues(meta.variableValues)
+        if (Array.isArray(meta.usageEvents)) setUsageEvents(meta.usageEvents)
+        setAuthor(meta.author || "")
+        if (meta.syncMode) setSyncMode(meta.syncMode)
+        setStoredMeta(meta)
+
+        // Only the first library gets sample prompts; new workspaces start empty.
+        if (workspace === DEFAULT_WORKSPACE_ID && p.length === 0 && c.length === 0 && t.length === 0) {
+          const seedCats = ["Marketing", "Coding", "Research"]
+          const seedTags = ["email", "seo", "typescript", "summarize", "brainstorm"]
+          const seedPrompts: Prompt[] = [
+            {
+              id: uid(),
+              title: "Cold Email Outreach",
+              content:
+                "Act as a sales rep. Write a concise, friendly cold email to introduce {{product}} to {{audience=SMB owners # who the email is for}}. Include a clear CTA and 2 subject line options.",
+              category: "Marketing",
+              tags: ["email", "seo"],
+              favorite: true,
+              uses: 0,
+              createdAt: now(),
+              updatedAt: now(),
+            },
+            {
+              id: uid(),
+              title: "TypeScript Refactor Plan",
+              content:
+                "Given a React component, list a step-by-step refactor plan to add strong TypeScript types and improve maintainability. Include code snippets.",
+              category: "Coding",
+              tags: ["typescript"],
+              favorite: false,
+              uses: 0,
+              createdAt: now(),
+              updatedAt: now(),
+            },
+            {
+              id: uid(),
+              title: "Paper Summary",
+              content:
+                "Summarize the following research paper in 5 bullet points, highlight key findings and limitations. Then propose a follow-up experiment.",
+              category: "Research",
+              tags: ["summarize"],
+              favorite: false,
+              uses: 0,
+              createdAt: now(),
+              updatedAt: now(),
+            },
+          ]
+          setPrompts(seedPrompts)
+          setCategories(seedCats)
+          setTags(seedTags)
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) reportError(err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [workspace])
+
+  useEffect(() => {
+    if (!storedMeta) return
+    const prev = persistedRef.current
+    const next = new Map(prompts.map((p) => [p.id, p]))
+    const puts = prompts.filter((p) => prev.get(p.id) !== p)
+    const deletes = Array.from(prev.keys()).filter((id) => !next.has(id))
+    persistedRef.current = next
+    if (puts.length === 0 && deletes.length === 0) return
+    writePrompts(workspace, puts, deletes)
+      .then(() => broadcast({ type: "prompts", workspace, puts, deletes }))
+      .catch(reportError)
+  }, [workspace, storedMeta, prompts])
+
+  usePersistedMeta(workspace, "categories", categories, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "tags", tags, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "collections", collections, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "labelStyles", labelStyles, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "chains", chains, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "chainRuns", chainRuns, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "tokenSettings", tokenSettings, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "llmSettings", llmSettings, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "variableValues", variableValues, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "usageEvents", usageEvents, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "author", author, storedMeta, persistedMetaRef, reportError)
+  usePersistedMeta(workspace, "syncMode", syncMode, storedMeta, persistedMetaRef, reportError)
+
+  // Apply writes made by other open tabs, merging per prompt by updatedAt.
+  useEffect(() => {
+    if (!storedMeta) return
+    return subscribe((msg) => {
+      if (msg.type === "workspaces" || msg.workspace !== workspace) return
+      if (msg.type === "meta") {
+        persistedMetaRef.current[msg.key] = JSON.stringify(msg.value)
+        if (msg.key === "categories") setCategories(msg.value)
+        else if (msg.key === "tags") setTags(msg.value)
+        else if (msg.key === "collections") setCollections(msg.value)
+        else if (msg.key === "labelStyles") setLabelStyles(msg.value)
+        else if (msg.key === "chains") setChains(msg.value)
+        else if (msg.key === "chainRuns") setChainRuns(msg.value)
+        else if (msg.key === "tokenSettings") setTokenSettings(normalizeTokenSettings(msg.value))
+        else if (msg.key === "llmSettings") setLlmSettings(normalizeLlmSettings(msg.value))
+        else if (msg.key === "variableValues") setVariableValues(msg.value)
+        // Copies logged here since are kept; the merged log is written back when it differs.
+        else if (msg.key === "usageEvents") setUsageEvents((prev) => mergeUsageEvents(prev, msg.value))
+        else if (msg.key === "author") setAuthor(msg.value)
+        else if (msg.key === "syncMode") setSyncMode(msg.value)
+        return
+      }
+
+      const current = new Map(promptsRef.current.map((p) => [p.id, p]))
+      const accepted = new Map<string, Prompt>()
+      const kept: Prompt[] = []
+      for (const incoming of msg.puts) {
+        const mine = current.get(incoming.id)
+        if (mine && incoming.updatedAt < mine.updatedAt) {
+          kept.push(mine)
+          continue
+        }
+        // Equal timestamps take the incoming copy: `uses` bumps do not touch updatedAt. Copies and
+        // runs made here since are kept, and the merged copy is written back.
+        const merged = mine ? mergeNotes(incoming, mine) : incoming
+        accepted.set(incoming.id, merged)
+        if (merged !== incoming) kept.push(merged)
+      }
+      const deleted = new Set(msg.deletes)
+
+      // Mark accepted records as persisted so they are not written and broadcast back.
+      accepted.forEach((p, id) => persistedRef.current.set(id, p))
+      deleted.forEach((id) => persistedRef.current.delete(id))
+      setPrompts((prev) => {
+        const existing = new Set(prev.map((p) => p.id))
+        const added = Array.from(accepted.values()).filter((p) => !existing.has(p.id))
+        const next = prev.filter((p) => !deleted.has(p.id)).map((p) => accepted.get(p.id) || p)
+        return [...added, ...next]
+      })
+
+      // Our copy is newer than, or adds to, what the other tab just stored: write it back.
+      if (kept.length > 0) {
+        writePrompts(workspace, kept)
+          .then(() => broadcast({ type: "prompts", workspace, puts: kept, deletes: [] }))
+          .catch(reportError)
+      }
+    })
+  }, [workspace, storedMeta])
+
+  // Remote mode keeps IndexedDB as the offline cache and syncs it with /api/prompts.
+  // The server holds a single library, so only the default workspace syncs.
+  const sync = useRemoteSync({
+    workspace,
+    enabled: syncMode === "remote" && workspace === DEFAULT_WORKSPACE_ID,
+    ready: storedMeta !== null,
+    initialState: storedMeta?.sync,
+    prompts,
+    setPrompts,
+  })
+
+  // Applies a change to the prompt list and records it so it can be undone. `labels` is the
+  // category list and styles from before a folder change, put back along with the prompts.
+  function commitPrompts(label: string, update: (prev: Prompt[]) => Prompt[], labels?: LabelsSnapshot) {
+    const prev = promptsRef.current
+    const next = update(prev)
+    const entry = recordChange(prev, next, label, labels)
+    if (!entry) return null
+    promptsRef.current = next
+    historyRef.current = [entry, ...historyRef.current].slice(0, HISTORY_LIMIT)
+    setPrompts(next)
+    setHistory(historyRef.current)
+    return entry
+  }
+
+  // Undoes the given entry, or the latest one. Returns null if it was already undone.
+  function undo(entry: HistoryEntry | undefined = historyRef.current[0]) {
+    if (!entry || !historyRef.current.includes(entry)) return null
+    historyRef.current = historyRef.current.filter((e) => e !== entry)
+    const next = revertChange(promptsRef.current, entry)
+    promptsRef.current = next
+    setPrompts(next)
+    if (entry.labels) {
+      setCategories(entry.labels.categories)
+      setLabelStyles(entry.labels.labelStyles)
+    }
+    setHistory(historyRef.current)
+    return entry
+  }
+
+  return {
+    prompts,
+    setPrompts,
+    commitPrompts,
+    history,
+    undo,
+    categories,
+    setCategories,
+    tags,
+    setTags,
+    collections,
+    setCollections,
+    labelStyles,
+    setLabelStyles,
+    chains,
+    setChains,
+    chainRuns,
+    setChainRuns,
+    tokenSettings,
+    setTokenSettings,
+    llmSettings,
+    setLlmSettings,
+    variableValues,
+    setVariableValues,
+    usageEvents,
+    setUsageEvents,
+    author,
+    setAuthor,
+    storageError,
+    ready: storedMeta !== null,
+    clearStorageError: () => setStorageError(null),
+    syncMode,
+    setSyncMode,
+    sync,
+  }
+}
+
+function usePersistedMeta<K extends keyof LibraryMeta>(
+  workspace: string,
+  key: K,
+  value: LibraryMeta[K],
+  storedMeta: Partial<LibraryMeta> | null,
+  persistedRef: React.MutableRefObject<Partial<Record<keyof LibraryMeta, string>>>,
+  onError: (err: unknown) => void,
+) {
+  useEffect(() => {
+    if (!storedMeta) return
+    const persisted = persistedRef.current
+    if (persisted[key] === undefined) persisted[key] = JSON.stringify(storedMeta[key] ?? null)
+    const serialized = JSON.stringify(value)
+    if (persisted[key] === serialized) return
+    persisted[key] = serialized
+    writeMeta(workspace, key, value)
+      .then(() => broadcast({ type: "meta", workspace, key, value } as LibraryMessage))
+      .catch(onError)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspace, storedMeta, key, value])
+}
+
+type PromptFormValues = {
+  title: string
+  content: string
+  category: string
+  tags: string[]
+  handle: string
+}
+
+type IncludeCheck = Pick<Expansion, "missing" | "cycle"> & { handleTakenBy: string | null }
+
+const DEFAULT_FILTERS: SavedFilters = {
+  search: "",
+  category: ALL_CATEGORIES,
+  selectedTags: [],
+  tagMatch: "any",
+  sort: "relevance",
+}
+
+function sameFilters(a: SavedFilters, b: SavedFilters) {
+  return (
+    a.search.trim() === b.search.trim() &&
+    a.category === b.category &&
+    a.tagMatch === b.tagMatch &&
+    a.sort === b.sort &&
+    a.selectedTags.length === b.selectedTags.length &&
+    a.selectedTags.every((t) => b.selectedTags.includes(t))
+  )
+}
+
+function useFilters() {
+  const [search, setSearch] = useState("")
+  const [category, setCategory] = useState<string>(ALL_CATEGORIES)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [tagMatch, setTagMatch] = useState<"any" | "all">("any")
+  const [sort, setSort] = useState<SortOrder>("relevance")
+
+  function apply(f: SavedFilters) {
+    setSearch(f.search)
+    setCategory(f.category)
+    setSelectedTags(f.selectedTags)
+    setTagMatch(f.tagMatch)
+    setSort(f.sort)
+  }
+
+  function resetAll() {
+    apply(DEFAULT_FILTERS)
+  }
+
+  const current: SavedFilters = useMemo(
+    () => ({ search, category, selectedTags, tagMatch, sort }),
+    [search, category, selectedTags, tagMatch, sort],
+  )
+
+  return {
+    current,
+    apply,
+    search,
+    setSearch,
+    category,
+    setCategory,
+    selectedTags,
+    setSelectedTags,
+    tagMatch,
+    setTagMatch,
+    sort,
+    setSort,
+    resetAll,
+  }
+}
+
+// "Best match" ranks by relevance when the query has free text and falls back to
+// recently updated otherwise.
+function applyFilters(
+  index: SearchIndex,
+  opts: SavedFilters,
+) {
+  const query = parseQuery(opts.search)
+  const ranked = opts.sort === "relevance" && hasText(query)
+  let list = search(index, query).filter(({ prompt: p }) => {
+    if (opts.category !== ALL_CATEGORIES) {
+      if (opts.category === UNCATEGORIZED && p.category) return false
+      if (opts.category !== UNCATEGORIZED && !isInCategory(p.category, opts.category)) return false
+    }
+    if (opts.selectedTags.length > 0) {
+      if (opts.tagMatch === "any") {
+        return p.tags.some((t) => opts.selectedTags.includes(t))
+      } else {
+        return opts.selectedTags.every((t) => p.tags.includes(t))
+      }
+    }
+    return true
+  })
+
+  if (!ranked) {
+    list = list.sort(({ prompt: a }, { prompt: b }) => {
+      if (opts.sort === "created") return b.createdAt - a.createdAt
+      if (opts.sort === "title") return a.title.localeCompare(b.title)
+      if (opts.sort === "longest") return b.content.length - a.content.length
+      if (opts.sort === "shortest") return a.content.length - b.content.length
+      if (opts.sort === "most-used") return b.uses - a.uses || b.updatedAt - a.updatedAt
+      if (opts.sort === "recent") return (b.lastUsedAt || 0) - (a.lastUsedAt || 0) || b.updatedAt - a.updatedAt
+      return b.updatedAt - a.updatedAt
+    })
+  }
+
+  return { hits: list, ranked }
+}
+
+function PromptForm({
+  open,
+  setOpen,
+  onSubmit,
+  initial,
+  allCategories,
+  allTags,
+  checkIncludes,
+}: {
+  open: boolean
+  setOpen: (v: boolean) => void
+  onSubmit: (values: PromptFormValues) => void
+  initial?: Partial<Prompt>
+  allCategories: string[]
+  allTags: string[]
+  checkIncludes: (content: string, handle: string) => IncludeCheck
+}) {
+  const [title, setTitle] = useState(initial?.title || "")
+  const [content, setContent] = useState(initial?.content || "")
+  const [handle, setHandle] = useState(initial?.handle || "")
+  const [category, setCategory] = useState(initial?.category || "")
+  const [tags, setTags] = useState<string[]>(initial?.tags || [])
+  const [editorMode, setEditorMode] = useState<EditorMode>("write")
+  const [contentMissing, setContentMissing] = useState(false)
+  const tagInputRef = useRef<TagInputHandle | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setTitle(initial?.title || "")
+      setContent(initial?.content || "")
+      setCategory(initial?.category || "")
+      setTags(initial?.tags || [])
+      setHandle(initial?.handle || "")
+      setContentMissing(false)
+    }
+  }, [open, initial?.title, initial?.content, initial?.category, initial?.tags, initial?.handle])
+
+  const includes = useMemo(
+    () => checkIncludes(content, normalizeHandle(handle)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [content, handle],
+  )
+  const blocked = includes.cycle !== null || includes.handleTakenBy !== null
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (blocked) return
+    // Checked here rather than by the browser, which can't point at the textarea hidden in preview mode.
+    if (!content.trim()) {
+      setContentMissing(true)
+      if (editorMode === "preview") setEditorMode("write")
+      return
+    }
+    const pending = tagInputRef.current?.getPending() || ""
+    const normalized = tags.map(normalizeTag)
+    const finalTags = pending.trim()
+      ? normalized.includes(normalizeTag(pending))
+        ? normalized
+        : [...normalized, normalizeTag(pending)]
+      : normalized
+
+    onSubmit({
+      title: title.trim(),
+      content: content.trim(),
+      category: normalizeCategory(category),
+      tags: finalTags,
+      handle: normalizeHandle(handle),
+    })
+    setOpen(false)
+  }
+
+  const categorySuggestions = useMemo(() => {
+    const q = category.trim().toLowerCase()
+    return allCategories.filter((c) => (q ? c.toLowerCase().includes(q) : true)).slice(0, 6)
+  }, [allCategories, category])
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className={cn("p-0", editorMode === "split" ? "sm:max-w-5xl" : "sm:max-w-2xl")}>
+        <form onSubmit={handleSubmit} className="grid max-h-[85vh] grid-rows-[auto,1fr,auto]">
+          <DialogHeader className="px-6 pt-6">
+            <DialogTitle>{initial?.id ? "Edit prompt" : "New prompt"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="overflow-y-auto px-6 pb-4">
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g., Blog Outline Generator"
+                  required
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="content">Prompt</Label>
+                <MarkdownEditor
+                  id="content"
+                  value={content}
+                  onChange={(value) => {
+                    setContent(value)
+                    setContentMissing(false)
+                  }}
+                  mode={editorMode}
+                  onModeChange={setEditorMode}
+                  placeholder="Write your prompt here. Markdown and {{variables}} are supported."
+                  invalid={contentMissing}
+                />
+                {contentMissing ? (
+                  <p role="alert" className="text-xs text-red-600">
+                    The prompt can&apos;t be empty.
+                  </p>
+                ) : null}
+                {includes.cycle ? (
+                  <p role="alert" className="text-xs text-red-600">
+                    Include cycle: {includes.cycle.join(" → ")}
+                  </p>
+                ) : null}
+                {includes.missing.length > 0 ? (
+                  <p className="text-xs text-amber-600">Unknown includes: {includes.missing.join(", ")}</p>
+                ) : null}
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="handle">Include name</Label>
+                <Input
+                  id="handle"
+                  value={handle}
+                  onChange={(e) => setHandle(e.target.value)}
+                  placeholder="Optional, e.g. persona-sales"
+                  className="font-mono"
+                />
+                {includes.handleTakenBy !== null ? (
+                  <p role="alert" className="text-xs text-red-600">
+                    Already used by “{includes.handleTakenBy}”.
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {normalizeHandle(handle)
+                      ? `Other prompts can include this one with ${includeTag(normalizeHandle(handle))}.`
+                      : "Give it a name to reuse it in other prompts as {{> name}}."}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="category">Category</Label>
+                <Input
+                  id="category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  placeholder="Select or type a new category, e.g. Coding/TypeScript"
+                  list="category-suggestions"
+                />
+                <datalist id="category-suggestions">
+                  {allCategories.map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+                {categorySuggestions.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {categorySuggestions.map((c) => (
+                      <button
+                        type="button"
+                        key={c}
+                        onClick={() => setCategory(c)}
+                        className="text-xs rounded-full border px-2 py-1 hover:bg-muted"
+                        aria-label={`Use category ${c}`}
+                      >
+                        <Folder className="mr-1 inline h-3 w-3" />
+                        {c}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Tags</Label>
+                <TagInput ref={tagInputRef} value={tags} onChange={setTags} suggestions={allTags} aria-label="Tags" />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 border-t px-6 py-4">
+            <Button variant="secondary" type="button" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={blocked}>
+              {initial?.id ? "Save changes" : "Create prompt"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function ContentSnippet({ text, ranges }: { text: string; ranges: Range[] }) {
+  const s = snippet(text, ranges)
+  return (
+    <>
+      {s.before ? "… " : null}
+      <Highlight text={s.text} ranges={s.ranges} />
+      {s.after ? " …" : null}
+    </>
+  )
+}
+
+function PromptCard({
+  prompt,
+  onEdit,
+  onDelete,
+  onToggleFavorite,
+  onCopy,
+  onView,
+  isCopied,
+  hit,
+  dragIds,
+  labelStyles,
+  selectable = false,
+  selected = false,
+  onSelectedChange,
+  active = false,
+  onActivate,
+  tokens = null,
+  model = null,
+  onCompare,
+  onTests,
+}: {
+  prompt: Prompt
+  onEdit: () => void
+  onDelete: () => void
+  onToggleFavorite: () => void
+  onCopy: () => void
+  onView: () => void
+  isCopied: boolean
+  hit?: SearchHit
+  // Ids carried when the card is dragged onto a category folder.
+  dragIds?: string[]
+  labelStyles?: LabelStyles
+  selectable?: boolean
+  selected?: boolean
+  onSelectedChange?: (selected: boolean, range: boolean) => void
+  active?: boolean
+  onActivate?: () => void
+  // Estimated for `model`; null until its tokenizer has loaded.
+  tokens?: number | null
+  model?: ModelPrice | null
+  onCompare?: () => void
+  onTests?: () => void
+}) {
+  const latestReport = prompt.testReports?.[0]
+  const { words } = textStats(prompt.content)
+  return (
+    <Card
+      data-prompt-id={prompt.id}
+      tabIndex={-1}
+      onFocus={onActivate}
+      className={cn(
+        "flex h-full flex-col outline-none",
+        active && "ring-2 ring-ring/50",
+        selected && "ring-2 ring-primary",
+      )}
+      draggable={!!dragIds}
+      onDragStart={(e) => {
+        if (!dragIds) return
+        e.dataTransfer.setData(PROMPT_DRAG_TYPE, JSON.stringify(dragIds))
+        e.dataTransfer.setData("text/plain", prompt.title)
+        e.dataTransfer.effectAllowed = "move"
+      }}
+    >
+      <CardHeader className="space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-start gap-2">
+            {selectable ? (
+              <Checkbox
+                className="mt-0.5"
+                checked={selected}
+                onClick={(e) => {
+                  // Handled here rather than in onCheckedChange so shift-click can select a range.
+                  e.preventDefault()
+                  onSelectedChange?.(!selected, e.shiftKey)
+                }}
+                aria-label={`Select ${prompt.title}`}
+              />
+            ) : null}
+            <CardTitle className="text-base">
+              <Highlight text={prompt.title} ranges={hit?.title ?? []} />
+            </CardTitle>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              className={cn(
+                "rounded p-1",
+                prompt.favorite ? "text-yellow-500" : "text-muted-foreground hover:text-foreground",
+              )}
+              onClick={onToggleFavorite}
+              aria-label={prompt.favorite ? "Unfavorite" : "Favorite"}
+              title={prompt.favorite ? "Unfavorite" : "Favorite"}
+            >
+              <Star className={cn("h-4 w-4", prompt.favorite ? "fill-yellow-400" : "")} />
+            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" aria-label="Actions">
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={onView}>
+                  <Eye className="mr-2 h-4 w-4" /> View
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onEdit}>
+                  <Edit className="mr-2 h-4 w-4" /> Edit
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={onCopy}>
+                  <Copy className="mr-2 h-4 w-4" /> Copy
+                </DropdownMenuItem>
+                {onCompare ? (
+                  <DropdownMenuItem onClick={onCompare}>
+                    <GitCompare className="mr-2 h-4 w-4" />
+                    {prompt.variants?.length ? "Compare variants" : "Add a variant"}
+                  </DropdownMenuItem>
+                ) : null}
+                {onTests ? (
+                  <DropdownMenuItem onClick={onTests}>
+                    <FlaskConical className="mr-2 h-4 w-4" /> Tests
+                  </DropdownMenuItem>
+                ) : null}
+                <DropdownMenuItem onClick={onDelete} className="text-red-600">
+                  <Trash className="mr-2 h-4 w-4" /> Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {prompt.category ? (
+            <LabelBadge kind="category" label={prompt.category} style={labelStyles?.categories[prompt.category]} />
+          ) : null}
+          {prompt.handle ? (
+            <Badge variant="outline" className="font-mono" title="Include name">
+              {includeTag(prompt.handle)}
+            </Badge>
+          ) : null}
+          {prompt.variants?.length ? (
+            <Badge variant="outline" className="gap-1" title="Variants of this prompt">
+              <GitCompare className="h-3 w-3" />
+              {prompt.variants.length + 1} versions
+            </Badge>
+          ) : null}
+          {latestReport ? (
+            <Badge
+              variant="outline"
+              className={cn(
+                "gap-1",
+                passCount(latestReport) < latestReport.results.length && "border-red-500/50 text-red-600",
+              )}
+              title={`Latest test report, ${new Date(latestReport.createdAt).toLocaleString()}`}
+            >
+              <FlaskConical className="h-3 w-3" />
+              {passCount(latestReport)}/{latestReport.results.length} passed
+            </Badge>
+          ) : null}
+          {prompt.tags.map((t, i) => (
+            <LabelBadge
+              key={t}
+              kind="tag"
+              label={t}
+              style={labelStyles?.tags[t]}
+              className={cn(hit?.tags.includes(i) && "ring-2 ring-yellow-400")}
+            />
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="flex-1">
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={onView}
+          onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && onView()}
+          className="rounded-md border bg-muted/30 p-3 text-sm font-mono leading-relaxed max-h-40 overflow-hidden cursor-pointer hover:bg-muted/50"
+          title="Click to view full prompt"
+          aria-label="Open prompt viewer"
+        >
+          {hit && hit.content.length > 0 ? <ContentSnippet text={prompt.content} ranges={hit.content} /> : prompt.content}
+        </div>
+      </CardContent>
+      <CardFooter className="flex items-center justify-between gap-2">
+        <div className="grid gap-0.5 text-xs text-muted-foreground">
+          <span>
+            {"Uses: "}
+            {prompt.uses}
+            {" • Updated: "}
+            {new Date(prompt.updatedAt).toLocaleDateString()}
+          </span>
+          <span title={model ? `Input tokens and cost for ${model.name}` : undefined}>
+            {formatCount(words)} words
+            {tokens !== null ? ` • ≈ ${formatCount(tokens)} tokens` : ""}
+            {tokens !== null && model ? ` • ${formatCost(estimateCost(tokens, model))}` : ""}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onView}>
+            <Eye className="mr-2 h-4 w-4" />
+            View
+          </Button>
+          <Button
+            variant={isCopied ? "secondary" : "outline"}
+            size="sm"
+            onClick={onCopy}
+            className={cn(isCopied && "animate-pulse")}
+            aria-live="polite"
+          >
+            {isCopied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+            {isCopied ? "Copied" : "Copy"}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onEdit}>
+            <Edit className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+          <Button variant="destructive" size="sm" onClick={onDelete}>
+            <Trash className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  )
+}
+
+export function PromptManager() {
+  const workspaces = useWorkspaces()
+  if (!workspaces.ready) return null
+  // Remounting per workspace resets the store, undo history and selection along with the data.
+  return <WorkspaceLibrary key={workspaces.active.id} workspaces={workspaces} />
+}
+
+function WorkspaceLibrary({ workspaces }: { workspaces: WorkspacesState }) {
+  const workspace = workspaces.active
+  const { toast } = useToast()
+  const {
+    prompts: allPrompts,
+    setPrompts,
+    commitPrompts,
+    history,
+    undo,
+    categories,
+    setCategories,
+    tags,
+    setTags,
+    collections,
+    setCollections,
+    labelStyles,
+    setLabelStyles,
+    chains,
+    setChains,
+    chainRuns,
+    setChainRuns,
+    tokenSettings,
+    setTokenSettings,
+    llmSettings,
+    setLlmSettings,
+    variableValues,
+    setVariableValues,
+    usageEvents,
+    setUsageEvents,
+    author,
+    setAuthor,
+    storageError,
+    ready,
+    clearStorageError,
+    syncMode,
+    setSyncMode,
+    sync,
+  } = useLocalStore(workspace.id)
+  // Trashed prompts stay in the store until deleted permanently; the rest of the page only sees live ones.
+  const prompts = useMemo(() => allPrompts.filter((p) => !p.deletedAt), [allPrompts])
+  const trashed = useMemo(() => allPrompts.filter((p) => p.deletedAt), [allPrompts])
+  const [panel, setPanel] = useState<"library" | "trash" | "labels" | "chains" | "analytics">("library")
+  const filters = useFilters()
+  const [copiedIds, setCopiedIds] = useState<Set<string>>(new Set())
+
+  // derive used tags from prompts
+  const usedTags = useMemo(() => deriveUsedTags(prompts), [prompts])
+
+  // keep tag set and selected filters in sync with used tags
+  useEffect(() => {
+    setTags(usedTags)
+    filters.setSelectedTags((prev) => prev.filter((t) => usedTags.includes(t)))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [usedTags])
+
+  const [createOpen, setCreateOpen] = useState(false)
+  const [editOpen, setEditOpen] = useState(false)
+  const [editing, setEditing] = useState<Prompt | null>(null)
+  const [viewOpen, setViewOpen] = useState(false)
+  const [viewing, setViewing] = useState<Prompt | null>(null)
+  const [fillOpen, setFillOpen] = useState(false)
+  const [filling, setFilling] = useState<Prompt | null>(null)
+  const [importPreview, setImportPreview] = useState<{ fileName: string; preview: ImportPreview } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [importFormat, setImportFormat] = useState<LibraryFormat>("json")
+  const [exportScope, setExportScope] = useState<ExportScope>("all")
+  const [selectionMode, setSelectionMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const lastSelectedRef = useRef<string | null>(null)
+
+  const searchIndex = useMemo(() => buildSearchIndex(prompts), [prompts])
+  const handles = useMemo(() => buildHandleMap(prompts), [prompts])
+  const { hits, ranked } = useMemo(() => applyFilters(searchIndex, filters.current), [searchIndex, filters.current])
+  const hitsById = useMemo(() => new Map(hits.map((h) => [h.prompt.id, h])), [hits])
+  const collectionCounts = useMemo(
+    () => Object.fromEntries(collections.map((c) => [c.id, applyFilters(searchIndex, c.filters).hits.length])),
+    [searchIndex, collections],
+  )
+  const activeCollection = collections.find((c) => sameFilters(c.filters, filters.current)) || null
+
+  // Ranked results keep their order; otherwise favorites float to the top.
+  const favoriteFirst = useMemo(() => {
+    const list = hits.map((h) => h.prompt)
+    return ranked ? list : list.sort((a, b) => Number(b.favorite) - Number(a.favorite))
+  }, [hits, ranked])
+  const selectedPrompts = useMemo(() => prompts.filter((p) => selectedIds.has(p.id)), [prompts, selectedIds])
+
+  const selectedTags = useMemo(
+    () => Array.from(new Set(selectedPrompts.flatMap((p) => p.tags))).sort((a, b) => a.localeCompare(b)),
+    [selectedPrompts],
+  )
+  const allFilteredSelected = favoriteFirst.length > 0 && favoriteFirst.every((p) => selectedIds.has(p.id))
+
+  // Shift-click applies the new state to every card between the last clicked one and this one.
+  function setSelected(id: string, value: boolean, range = false) {
+    const order = favoriteFirst.map((p) => p.id)
+    const from = range && lastSelectedRef.current ? order.indexOf(lastSelectedRef.current) : -1
+    const to = order.indexOf(id)
+    const ids = from >= 0 && to >= 0 ? order.slice(Math.min(from, to), Math.max(from, to) + 1) : [id]
+    lastSelectedRef.current = id
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      for (const x of ids) {
+        if (value) next.add(x)
+        else next.delete(x)
+      }
+      return next
+    })
+  }
+
+  function exitSelectionMode() {
+    setSelectionMode(false)
+    setSelectedIds(new Set())
+    lastSelectedRef.current = null
+    if (exportScope === "selected") setExportScope("all")
+  }
+
+  function upsertCategoriesAndTags(category: string, tgs: string[]) {
+    if (category) {
+      const c = normalizeCategory(category)
+      if (c && !categories.includes(c)) setCategories([...categories, c])
+    }
+    if (tgs.length) {
+      const unique = Array.from(new Set([...tags, ...tgs.map(normalizeTag)]))
+      setTags(unique)
+    }
+  }
+
+  function handleCreate(values: PromptFormValues) {
+    const createdAt = now()
+    const p: Prompt = {
+      id: uid(),
+      title: values.title,
+      content: values.content,
+      category: values.category || null,
+      tags: values.tags,
+      favorite: false,
+      uses: 0,
+      createdAt,
+      updatedAt: createdAt,
+    }
+    if (values.handle) p.handle = values.handle
+    p.revisions = [initialRevision(p, author || "unknown", createdAt)]
+    setPrompts((prev) => [p, ...prev])
+    upsertCategoriesAndTags(values.category, values.tags)
+    toast({ title: "Prompt created" })
+  }
+
+  function undoAction(entry: HistoryEntry | null) {
+    if (!entry) return undefined
+    return (
+      <ToastAction altText="Undo" onClick={() => handleUndo(entry)}>
+        Undo
+      </ToastAction>
+    )
+  }
+
+  function handleUndo(entry?: HistoryEntry) {
+    const undone = undo(entry)
+    if (undone) toast({ title: "Undone", description: undone.label })
+  }
+
+  function handleEdit(values: PromptFormValues) {
+    if (!editing) return
+    const id = editing.id
+    const from = editing.handle
+    const to = values.handle || undefined
+    const entry = commitPrompts(`Edit “${values.title}”`, (prev) =>
+      prev.map((p) => {
+        if (p.id === id) {
+          const revised = revisePrompt(
+            p,
+            {
+              title: values.title,
+              content: values.content,
+              category: values.category || null,
+              tags: values.tags,
+            },
+            author || "unknown",
+          )
+          return p.handle === to ? revised : { ...revised, handle: to, updatedAt: now() }
+        }
+        // Keep includes pointing at a renamed snippet.
+        if (from && to && from !== to && !p.deletedAt && parseIncludes(p.content).includes(from)) {
+          const content = renameIncludes(p.content, from, to)
+          return revisePrompt(p, { title: p.title, content, category: p.category, tags: p.tags }, author || "unknown")
+        }
+        return p
+      }),
+    )
+    upsertCategoriesAndTags(values.category, values.tags)
+    setEditing(null)
+    toast({ title: entry ? "Changes saved" : "No changes", action: undoAction(entry) })
+  }
+
+  function markCopied(id: string) {
+    setCopiedIds((prev) => {
+      const next = new Set(prev)
+      next.add(id)
+      return next
+    })
+    setTimeout(() => {
+      setCopiedIds((prev) => {
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }, 1200)
+  }
+
+  function handleDelete(id: string) {
+    const at = now()
+    const entry = commitPrompts("Move to trash", (prev) => prev.map((p) => (p.id === id ? moveToTrash(p, at) : p)))
+    if (viewing?.id === id) setViewOpen(false)
+    toast({ title: "Moved to trash", action: undoAction(entry) })
+  }
+
+  function handleRestoreFromTrash(ids: string[]) {
+    const restoring = new Set(ids)
+    const at = now()
+    const entry = commitPrompts("Restore from trash", (prev) =>
+      prev.map((p) => (restoring.has(p.id) ? restoreFromTrash(p, at) : p)),
+    )
+    if (entry) toast({ title: `Restored ${plural(entry.before.length)}`, action: undoAction(entry) })
+  }
+
+  function handleDeleteForever(ids: string[]) {
+    const removing = new Set(ids)
+    const entry = commitPrompts("Delete permanently", (prev) => prev.filter((p) => !removing.has(p.id)))
+    if (!entry) return
+    setVariableValues((prev) => {
+      if (!ids.some((id) => id in prev)) return prev
+      const next = { ...prev }
+      for (const id of ids) delete next[id]
+      return next
+    })
+    toast({ title: `Permanently deleted ${plural(entry.before.length)}`, action: undoAction(entry) })
+  }
+
+  const cardModel = selectedModel(tokenSettings)
+  const countTokens = useTokenCounter(cardModel?.tokenizer ?? null)
+
+  // Like copy counts, runs and their ratings leave updatedAt and the undo history alone.
+  function handleRunsRecorded(promptId: string, runs: PromptRun[]) {
+    // Added last to first so the list keeps the order they were started in.
+    const add = (p: Prompt) => runs.reduceRight(addPromptRun, p)
+    setPrompts((prev) => prev.map((p) => (p.id === promptId ? add(p) : p)))
+    setViewing((v) => (v?.id === promptId ? add(v) : v))
+  }
+
+  function handleTestReport(promptId: string, report: TestReport) {
+    setPrompts((prev) => prev.map((p) => (p.id === promptId ? addTestReport(p, report) : p)))
+  }
+
+  function handleSaveTestCases(promptId: string, cases: PromptTestCase[]) {
+    const prompt = prompts.find((p) => p.id === promptId)
+    if (!prompt) return
+    commitPrompts(`Edit tests of “${prompt.title}”`, (prev) =>
+      prev.map((p) => (p.id === promptId ? setTestCases(p, cases) : p)),
+    )
+  }
+
+  function handleRateRun(promptId: string, runId: string, rating: number | undefined) {
+    setPrompts((prev) => prev.map((p) => (p.id === promptId ? rateRun(p, runId, rating) : p)))
+  }
+
+  function handleVariantChange(
+    promptId: string,
+    label: string,
+    update: (prompt: Prompt) => Prompt,
+    { undoToast = false }: { undoToast?: boolean } = {},
+  ) {
+    const prompt = prompts.find((p) => p.id === promptId)
+    if (!prompt) return
+    const entry = commitPrompts(`${label} of “${prompt.title}”`, (prev) =>
+      prev.map((p) => (p.id === promptId ? update(p) : p)),
+    )
+    if (entry && undoToast) toast({ title: "Variant deleted", action: undoAction(entry) })
+  }
+
+  function handlePromoteVariant(promptId: string, variantId: string) {
+    const prompt = prompts.find((p) => p.id === promptId)
+    const variant = prompt?.variants?.find((v) => v.id === variantId)
+    if (!prompt || !variant) return
+    const promoted = promoteVariant(prompt, variantId, author || "unknown")
+    const entry = commitPrompts(`Promote “${variant.name}” in “${prompt.title}”`, (prev) =>
+      prev.map((p) => (p.id === promptId ? promoted : p)),
+    )
+    toast({
+      title: `“${variant.name}” is now the main version`,
+      description: "The previous text was kept as a variant.",
+      action: undoAction(entry),
+    })
+  }
+
+  // The oldest selected prompt stays; the others become its variants and go to the trash.
+  function handleCombineVariants() {
+    if (selectedPrompts.length < 2) return
+    const [main, ...others] = [...selectedPrompts].sort((a, b) => a.createdAt - b.createdAt)
+    const merged = mergeAsVariants(main, others)
+    const removing = new Set(others.map((p) => p.id))
+    const at = now()
+    const entry = commitPrompts(`Combine ${plural(selectedPrompts.length)} as variants`, (prev) =>
+      prev.map((p) => (p.id === main.id ? merged : removing.has(p.id) ? moveToTrash(p, at) : p)),
+    )
+    if (!entry) return
+    exitSelectionMode()
+    toast({
+      title: `Added ${others.length} variant${others.length === 1 ? "" : "s"} to “${main.title}”`,
+      description: "The separate copies were moved to the trash.",
+      action: undoAction(entry),
+    })
+  }
+
+  const expandPrompt = useCallback((p: Prompt) => expandIncludes(p.content, handles, p.handle).text, [handles])
+
+  function handleSaveChain(chain: Chain) {
+    setChains((prev) =>
+      prev.some((c) => c.id === chain.id) ? prev.map((c) => (c.id === chain.id ? chain : c)) : [...prev, chain],
+    )
+  }
+
+  function handleDeleteChain(id: string) {
+    const chain = chains.find((c) => c.id === id)
+    setChains((prev) => prev.filter((c) => c.id !== id))
+    setChainRuns((prev) => prev.filter((r) => r.chainId !== id))
+    if (chain) toast({ title: `Deleted chain “${chain.name}”` })
+  }
+
+  function handleSaveRun(run: ChainRun) {
+    setChainRuns((prev) => addRun(prev, run))
+    toast({ title: run.finishedAt ? "Run finished" : "Run saved", description: "The transcript is listed under Runs." })
+  }
+
+  async function copyPlainText(text: string) {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast({ title: "Copied to clipboard" })
+    } catch {
+      toast({ title: "Copy failed", variant: "destructive" })
+    }
+  }
+
+  async function copyText(prompt: Prompt, text: string, description?: string) {
+    try {
+      await navigator.clipboard.writeText(text)
+      // Do NOT update updatedAt here, so list order doesn't jump
+      const at = now()
+      setPrompts((prev) => prev.map((p) => (p.id === prompt.id ? { ...p, uses: p.uses + 1, lastUsedAt: at } : p)))
+      setUsageEvents((prev) => recordUse(prev, prompt.id, at))
+      markCopied(prompt.id)
+      toast({ title: "Copied to clipboard", description })
+    } catch {
+      toast({ title: "Copy failed", variant: "destructive" })
+    }
+  }
+
+  function handleCopy(prompt: Prompt) {
+    const { text, missing, cycle } = expandIncludes(prompt.content, handles, prompt.handle)
+    if (cycle) {
+      toast({ title: "Cannot copy: include cycle", description: cycle.join(" → "), variant: "destructive" })
+      return
+    }
+    if (!hasVariables(text)) {
+      copyText(prompt, text, missing.length > 0 ? `Unknown includes left as is: ${missing.join(", ")}` : undefined)
+      return
+    }
+    setFilling(prompt)
+    setFillOpen(true)
+  }
+
+  // The form previews the edited prompt in place of its stored copy.
+  function checkIncludes(content: string, handle: string, id?: string): IncludeCheck {
+    const owner = handle ? handles.get(handle) : undefined
+    const map = new Map<string, Pick<Prompt, "content">>(Array.from(handles).filter(([, p]) => p.id !== id))
+    if (handle) map.set(handle, { content })
+    const { missing, cycle } = expandIncludes(content, map, handle || undefined)
+    return { missing, cycle, handleTakenBy: owner && owner.id !== id ? owner.title : null }
+  }
+
+  function handleFilledCopy(text: string, values: Record<string, string>) {
+    if (!filling) return
+    setVariableValues((prev) => ({ ...prev, [filling.id]: values }))
+    copyText(filling, text)
+  }
+
+  function handleRestore(id: string, revision: PromptRevision) {
+    const prompt = prompts.find((p) => p.id === id)
+    if (!prompt) return
+    const restored = revisePrompt(
+      prompt,
+      { title: revision.title, content: revision.content, category: revision.category, tags: revision.tags },
+      author || "unknown",
+      revision.id,
+    )
+    if (restored === prompt) {
+      toast({ title: "Already at this revision" })
+      return
+    }
+    const entry = commitPrompts(`Restore revision of “${prompt.title}”`, (prev) =>
+      prev.map((p) => (p.id === prompt.id ? restored : p)),
+    )
+    upsertCategoriesAndTags(revision.category || "", revision.tags)
+    if (viewing?.id === prompt.id) setViewing(restored)
+    toast({ title: "Revision restored", action: undoAction(entry) })
+  }
+
+  function handleToggleFavorite(id: string) {
+    setPrompts((prev) => prev.map((p) => (p.id === id ? { ...p, favorite: !p.favorite, updatedAt: now() } : p)))
+  }
+
+  function plural(n: number) {
+    return `${n} prompt${n === 1 ? "" : "s"}`
+  }
+
+  function bulkUpdate(describe: (count: string) => string, update: (p: Prompt) => Prompt) {
+    updatePrompts(selectedPrompts, describe, update)
+  }
+
+  function updatePrompts(targets: Prompt[], describe: (count: string) => string, update: (p: Prompt) => Prompt) {
+    const changed = new Map<string, Prompt>()
+    for (const p of targets) {
+      const updated = update(p)
+      if (updated !== p) changed.set(p.id, updated)
+    }
+    if (changed.size === 0) {
+      toast({ title: "Nothing to change" })
+      return
+    }
+    const label = describe(plural(changed.size))
+    const entry = commitPrompts(label, (prev) => prev.map((p) => changed.get(p.id) || p))
+    toast({ title: label, action: undoAction(entry) })
+  }
+
+  function handleBulkDelete() {
+    if (selectedPrompts.length === 0) return
+    const at = now()
+    bulkUpdate((n) => `Moved ${n} to trash`, (p) => moveToTrash(p, at))
+    setSelectedIds(new Set())
+  }
+
+  function movePrompts(targets: Prompt[], category: string | null) {
+    updatePrompts(
+      targets,
+      (n) => (category ? `Moved ${n} to ${category}` : `Removed ${n} from their category`),
+      (p) => revisePrompt(p, { title: p.title, content: p.content, category, tags: p.tags }, author || "unknown"),
+    )
+    if (category) upsertCategoriesAndTags(category, [])
+  }
+
+  function handleBulkMove(category: string | null) {
+    movePrompts(selectedPrompts, category)
+  }
+
+  function handleDropPrompts(ids: string[], category: string | null) {
+    const moving = new Set(ids)
+    movePrompts(prompts.filter((p) => moving.has(p.id)), category)
+  }
+
+  function handleBulkTags({ add, remove }: BulkTagChange) {
+    bulkUpdate((n) => `Updated tags on ${n}`, (p) => {
+      const nextTags = Array.from(new Set([...p.tags.filter((t) => !remove.includes(t)), ...add]))
+      return revisePrompt(p, { title: p.title, content: p.content, category: p.category, tags: nextTags }, author || "unknown")
+    })
+    upsertCategoriesAndTags("", add)
+  }
+
+  function handleBulkFavorite(favorite: boolean) {
+    bulkUpdate((n) => `${favorite ? "Favorited" : "Unfavorited"} ${n}`, (p) =>
+      p.favorite === favorite ? p : { ...p, favorite, updatedAt: now() },
+    )
+  }
+
+  function handleBulkDuplicate() {
+    const createdAt = now()
+    const copies = selectedPrompts.map((p) => {
+      const copy: Prompt = {
+        id: uid(),
+        title: `${p.title} (copy)`,
+        content: p.content,
+        category: p.category,
+        tags: [...p.tags],
+        favorite: false,
+        uses: 0,
+        createdAt,
+        updatedAt: createdAt,
+      }
+      copy.revisions = [initialRevision(copy, author || "unknown", createdAt)]
+      return copy
+    })
+    if (copies.length === 0) return
+    const label = `Duplicated ${plural(copies.length)}`
+    const entry = commitPrompts(label, (prev) => [...copies, ...prev])
+    setSelectedIds(new Set(copies.map((c) => c.id)))
+    toast({ title: label, action: undoAction(entry) })
+  }
+
+  async function handleTransfer(targetId: string, move: boolean) {
+    const target = workspaces.workspaces.find((w) => w.id === targetId)
+    if (!target || selectedPrompts.length === 0) return
+    const records = copyForWorkspace(selectedPrompts, move)
+    try {
+      await writePrompts(target.id, records)
+    } catch (err) {
+      toast({
+        title: `Could not ${move ? "move" : "copy"} to ${target.name}`,
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      })
+      return
+    }
+    broadcast({ type: "prompts", workspace: target.id, puts: records, deletes: [] })
+    if (!move) {
+      toast({ title: `Copied ${plural(records.length)} to ${target.name}` })
+      return
+    }
+    // The originals go to the trash rather than away, so a mistaken move can be undone here.
+    const ids = new Set(records.map((p) => p.id))
+    const at = now()
+    const label = `Moved ${plural(records.length)} to ${target.name}`
+    const entry = commitPrompts(label, (prev) => prev.map((p) => (ids.has(p.id) ? moveToTrash(p, at) : p)))
+    setSelectedIds(new Set())
+    toast({ title: label, description: "The originals are in this workspace's trash.", action: undoAction(entry) })
+  }
+
+  async function runWorkspaceAction(action: () => Promise<unknown>, failure: string) {
+    try {
+      await action()
+    } catch (err) {
+      toast({ title: failure, description: err instanceof Error ? err.message : undefined, variant: "destructive" })
+    }
+  }
+
+  const tagCounts = useMemo(
+    () => Array.from(countTags(prompts)).sort((a, b) => a[0].localeCompare(b[0])),
+    [prompts],
+  )
+
+  function reviseLabels(p: Prompt, category: string | null, nextTags: string[]) {
+    return revisePrompt(p, { title: p.title, content: p.content, category, tags: nextTags }, author || "unknown")
+  }
+
+  // Renaming onto an existing category merges the two; subfolders move along.
+  function handleRenameCategory(from: string, to: string) {
+    if (isInCategory(to, from)) {
+      toast({ title: "Cannot move a category into itself", variant: "destructive" })
+      return
+    }
+    const entry = commitPrompts(`Rename category “${from}” to “${to}”`, (prev) =>
+      prev.map((p) =>
+        p.category && isInCategory(p.category, from)
+          ? reviseLabels(p, renameCategoryPath(p.category, from, to), p.tags)
+          : p,
+      ),
+      { categories, labelStyles },
+    )
+    setCategories((prev) => renameCategoryInList(prev, from, to))
+    setLabelStyles((prev) => ({
+      ...prev,
+      categories: renameStyles(prev.categories, (c) => renameCategoryPath(c, from, to)),
+    }))
+    if (isInCategory(filters.category, from)) filters.setCategory(renameCategoryPath(filters.category, from, to))
+    toast({ title: `Renamed “${from}” to “${to}”`, action: undoAction(entry) })
+  }
+
+  function handleDeleteCategory(path: string, reassignTo: string | null) {
+    const entry = commitPrompts(`Delete category “${path}”`, (prev) =>
+      prev.map((p) => (isInCategory(p.category, path) ? reviseLabels(p, reassignTo, p.tags) : p)),
+      { categories, labelStyles },
+    )
+    setCategories((prev) => removeCategoryFromList(prev, path, reassignTo))
+    setLabelStyles((prev) => ({
+      ...prev,
+      categories: Object.fromEntries(Object.entries(prev.categories).filter(([c]) => !isInCategory(c, path))),
+    }))
+    if (isInCategory(filters.category, path)) filters.setCategory(ALL_CATEGORIES)
+    toast({
+      title: `Deleted category “${path}”`,
+      description: reassignTo ? `Its prompts moved to ${reassignTo}` : "Its prompts are now uncategorized",
+      action: undoAction(entry),
+    })
+  }
+
+  function handleMergeTags(sources: string[], target: string) {
+    const label = sources.length === 1 ? `“${sources[0]}”` : `${sources.length} tags`
+    const entry = commitPrompts(`Merge ${label} into “${target}”`, (prev) =>
+      prev.map((p) => {
+        const next = replaceTags(p.tags, sources, target)
+        return next === p.tags ? p : reviseLabels(p, p.category, next)
+      }),
+    )
+    setLabelStyles((prev) => ({ ...prev, tags: renameStyles(prev.tags, (t) => (sources.includes(t) ? target : t)) }))
+    filters.setSelectedTags((prev) => Array.from(new Set(prev.map((t) => (sources.includes(t) ? target : t)))))
+    toast({ title: `Renamed ${label} to “${target}”`, action: undoAction(entry) })
+  }
+
+  function handleDeleteTag(tag: string, replacement: string | null) {
+    const entry = commitPrompts(`Delete tag “${tag}”`, (prev) =>
+      prev.map((p) => {
+        const next = replaceTags(p.tags, [tag], replacement)
+        return next === p.tags ? p : reviseLabels(p, p.category, next)
+      }),
+    )
+    setLabelStyles((prev) => {
+      const { [tag]: _removed, ...rest } = prev.tags
+      return { ...prev, tags: rest }
+    })
+    filters.setSelectedTags((prev) => prev.filter((t) => t !== tag))
+    toast({
+      title: `Deleted tag “${tag}”`,
+      description: replacement ? `Replaced with “${replacement}”` : undefined,
+      action: undoAction(entry),
+    })
+  }
+
+  function handleLabelStyle(kind: "category" | "tag", name: string, style: LabelStyle) {
+    const key = kind === "category" ? "categories" : "tags"
+    setLabelStyles((prev) => {
+      const { [name]: _old, ...rest } = prev[key]
+      const next: LabelStyle = {}
+      if (style.color) next.color = style.color
+      if (style.icon) next.icon = style.icon
+      return { ...prev, [key]: next.color || next.icon ? { ...rest, [name]: next } : rest }
+    })
+  }
+
+  function handleSaveCollection(name: string) {
+    const collection: SmartCollection = { id: uid(), name, filters: filters.current, createdAt: now() }
+    setCollections((prev) => [...prev, collection])
+    toast({ title: "Collection saved", description: name })
+  }
+
+  function handleRenameCollection(id: string, name: string) {
+    setCollections((prev) => prev.map((c) => (c.id === id ? { ...c, name } : c)))
+  }
+
+  function handleDeleteCollection(id: string) {
+    const index = collections.findIndex((c) => c.id === id)
+    if (index === -1) return
+    const removed = collections[index]
+    setCollections((prev) => prev.filter((c) => c.id !== id))
+    toast({
+      title: "Collection deleted",
+      description: removed.name,
+      action: (
+        <ToastAction
+          altText="Undo"
+          onClick={() =>
+            setCollections((prev) =>
+              prev.some((c) => c.id === id) ? prev : [...prev.slice(0, index), removed, ...prev.slice(index)],
+            )
+          }
+        >
+          Undo
+        </ToastAction>
+      ),
+    })
+  }
+
+  function handleMoveCollection(from: number, to: number) {
+    setCollections((prev) => {
+      if (to < 0 || to >= prev.length) return prev
+      const next = [...prev]
+      const [moved] = next.splice(from, 1)
+      next.splice(to, 0, moved)
+      return next
+    })
+  }
+
+  async function handleExport(format: LibraryFormat, scope: ExportScope = exportScope) {
+    const scoped = scope === "filtered" ? favoriteFirst : scope === "selected" ? selectedPrompts : prompts
+    if (scoped.length === 0) {
+      toast({ title: "Nothing to export", description: "No prompts match the chosen scope" })
+      return
+    }
+    const payload: ExportFile = buildExportFile(scoped, { categories, tags, collections, labelStyles }, scope !== "all")
+    try {
+      const blob = await serializeLibrary(format, payload)
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      const name = workspace.id === DEFAULT_WORKSPACE_ID ? "prompts-export" : `prompts-${slugify(workspace.name)}`
+      a.download = `${name}-${new Date().toISOString().slice(0, 10)}.${FORMATS[format].extension}`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      toast({ title: "Export failed", variant: "destructive" })
+    }
+  }
+
+  function chooseImportFile(format: LibraryFormat) {
+    setImportFormat(format)
+    // Let the accept attribute update before the picker opens.
+    setTimeout(() => fileInputRef.current?.click(), 0)
+  }
+
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    if (!file) return
+    try {
+      const data = await parseLibraryFile(importFormat, file)
+      setImportPreview({ fileName: file.name, preview: buildImportPreview(data, allPrompts) })
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description:
+          err instanceof ImportFileError
+            ? err.message
+            : `The file could not be read as ${FORMATS[importFormat].label}${err instanceof Error ? `: ${err.message}` : ""}`,
+        variant: "destructive",
+      })
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  function handleImportConfirm(resolutions: Record<string, ConflictResolution>) {
+    if (!importPreview) return
+    const { preview } = importPreview
+    // Re-apply against the current library in case it changed while the preview was open.
+    const fresh = buildImportPreview({ prompts: preview.items.map((i) => i.incoming) }, allPrompts)
+    const result = applyImport(allPrompts, fresh.items, resolutions)
+    const entry = commitPrompts(`Import ${importPreview.fileName}`, () => result.prompts)
+    const importedCategories = [
+      ...preview.categories,
+      ...preview.items.flatMap((i) => (i.incoming.category ? [i.incoming.category] : [])),
+    ]
+    setCategories(Array.from(new Set([...categories, ...importedCategories.map(normalizeCategory)])))
+    setTags(Array.from(new Set([...tags, ...preview.tags.map(normalizeTag)])))
+    setCollections((prev) => mergeCollections(prev, preview.collections))
+    setLabelStyles((prev) => mergeLabelStyles(prev, preview.labelStyles))
+    toast({
+      title: `Imported into ${workspace.name}`,
+      action: undoAction(entry),
+      description: `${result.added} added, ${result.replaced} replaced, ${result.duplicated} duplicated, ${result.skipped} skipped${
+        preview.rejected.length ? `, ${preview.rejected.length} rejected` : ""
+      }`,
+    })
+  }
+
+  const categoryTree = useMemo(() => buildCategoryTree(categories, prompts), [categories, prompts])
+  const uncategorizedCount = useMemo(() => prompts.filter((p) => !p.category).length, [prompts])
+
+  function openViewer(p: Prompt) {
+    setViewing(p)
+    setViewOpen(true)
+  }
+
+  // A prompt id from the URL waits here until the library has loaded.
+  const [requestedViewId, setRequestedViewId] = useState<string | null>(null)
+
+  useUrlState({
+    filters: filters.current,
+    viewId: viewOpen && viewing ? viewing.id : requestedViewId,
+    onFilters: filters.apply,
+    onView: (id) => {
+      setRequestedViewId(id)
+      if (!id) {
+        setViewOpen(false)
+        setViewing(null)
+      }
+    },
+  })
+
+  useEffect(() => {
+    if (!requestedViewId || !ready) return
+    const p = prompts.find((x) => x.id === requestedViewId)
+    setRequestedViewId(null)
+    if (p) openViewer(p)
+    else toast({ title: "Prompt not found", description: "It may have been deleted or moved to the trash." })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestedViewId, ready, prompts])
+
+  async function copyLink(p: Prompt) {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/prompts/${encodeURIComponent(p.id)}`)
+      toast({ title: "Link copied" })
+    } catch {
+      toast({ title: "Copy failed", variant: "destructive" })
+    }
+  }
+
+  const isViewingCopied = viewing ? copiedIds.has(viewing.id) : false
+  const viewingExpansion = useMemo(
+    () => (viewing && hasIncludes(viewing.content) ? expandIncludes(viewing.content, handles, viewing.handle) : null),
+    [viewing, handles],
+  )
+  const viewingUsedBy = useMemo(() => (viewing?.handle ? findUsages(viewing.handle, prompts) : []), [viewing, prompts])
+  const [showExpanded, setShowExpanded] = useState(true)
+  const [showRaw, setShowRaw] = useState(false)
+  const viewingText = viewingExpansion && showExpanded ? viewingExpansion.text : viewing?.content ?? ""
+  const [runOpen, setRunOpen] = useState(false)
+  // Looked up live so edits made in the comparison show up right away.
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const comparing = compareId ? prompts.find((p) => p.id === compareId) || null : null
+
+  function openCompare(p: Prompt) {
+    setViewOpen(false)
+    setViewing(null)
+    setRunOpen(false)
+    setCompareId(p.id)
+  }
+  const [testsId, setTestsId] = useState<string | null>(null)
+  const testing = testsId ? prompts.find((p) => p.id === testsId) || null : null
+
+  function openTests(p: Prompt) {
+    setViewOpen(false)
+    setViewing(null)
+    setRunOpen(false)
+    setTestsId(p.id)
+  }
+  const viewingVariables = useMemo(
+    () => (viewing ? parseVariables(viewingExpansion?.text ?? viewing.content) : []),
+    [viewing, viewingExpansion],
+  )
+
+  const { resolvedTheme, setTheme } = useTheme()
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [helpOpen, setHelpOpen] = useState(false)
+  const [tokenSettingsOpen, setTokenSettingsOpen] = useState(false)
+  const searchInputRef = useRef<HTMLInputElement | null>(null)
+  // The card the arrow keys move between; c, e, f and Enter act on it.
+  const [activeCardId, setActiveCardId] = useState<string | null>(null)
+  const activePrompt = panel === "library" ? favoriteFirst.find((p) => p.id === activeCardId) : undefined
+
+  function focusCard(id: string) {
+    setActiveCardId(id)
+    document.querySelector<HTMLElement>(`[data-prompt-id="${CSS.escape(id)}"]`)?.focus()
+  }
+
+  // Cards sharing the first card's offsetTop make up a row of the responsive grid.
+  function gridColumns() {
+    const cards = Array.from(document.querySelectorAll<HTMLElement>("[data-prompt-id]"))
+    if (cards.length === 0) return 1
+    return Math.max(1, cards.filter((c) => c.offsetTop === cards[0].offsetTop).length)
+  }
+
+  function moveCard(key: string) {
+    if (panel !== "library" || favoriteFirst.length === 0) return false
+    const index = favoriteFirst.findIndex((p) => p.id === activeCardId)
+    if (index === -1) {
+      focusCard(favoriteFirst[0].id)
+      return
+    }
+    const step = key === "ArrowLeft" || key === "ArrowRight" ? 1 : gridColumns()
+    const next = key === "ArrowLeft" || key === "ArrowUp" ? index - step : index + step
+    if (next >= 0 && next < favoriteFirst.length) focusCard(favoriteFirst[next].id)
+  }
+
+  function withActive(action: (p: Prompt) => void) {
+    return () => {
+      if (!activePrompt) return false
+      action(activePrompt)
+    }
+  }
+
+  function focusSearch() {
+    setPanel("library")
+    // The search box only exists in the library panel, so wait for it to render.
+    setTimeout(() => {
+      searchInputRef.current?.focus()
+      searchInputRef.current?.select()
+    }, 0)
+  }
+
+  useKeyboardShortcuts({
+    "mod+k": () => setPaletteOpen((v) => !v),
+    "/": focusSearch,
+    n: () => setCreateOpen(true),
+    "?": () => setHelpOpen(true),
+    ArrowLeft: (e) => moveCard(e.key),
+    ArrowRight: (e) => moveCard(e.key),
+    ArrowUp: (e) => moveCard(e.key),
+    ArrowDown: (e) => moveCard(e.key),
+    Enter: withActive(openViewer),
+    c: withActive(handleCopy),
+    e: withActive((p) => {
+      setEditing(p)
+      setEditOpen(true)
+    }),
+    f: withActive((p) => handleToggleFavorite(p.id)),
+  })
+
+  function goToCategory(category: string) {
+    setPanel("library")
+    filters.setCategory(category)
+  }
+
+  const paletteCommands: PaletteCommand[] = [
+    { id: "new", group: "Actions", label: "New prompt", icon: Plus, shortcut: "N", run: () => setCreateOpen(true) },
+    { id: "search", group: "Actions", label: "Search prompts", icon: Search, shortcut: "/", run: focusSearch },
+    ...(history.length > 0
+      ? [{ id: "undo", group: "Actions", label: `Undo: ${history[0].label}`, icon: Undo2, run: () => handleUndo() }]
+      : []),
+    {
+      id: "select",
+      group: "Actions",
+      label: selectionMode ? "Exit selection mode" : "Select prompts",
+      icon: ListChecks,
+      run: () => {
+        if (selectionMode) return exitSelectionMode()
+        setPanel("library")
+        setSelectionMode(true)
+      },
+    },
+    ...(Object.keys(FORMATS) as LibraryFormat[]).map((f) => ({
+      id: `export-${f}`,
+      group: "Actions",
+      label: `Export library as ${FORMATS[f].label}`,
+      icon: Download,
+      run: () => handleExport(f, "all"),
+    })),
+    ...(Object.keys(FORMATS) as LibraryFormat[]).map((f) => ({
+      id: `import-${f}`,
+      group: "Actions",
+      label: `Import ${FORMATS[f].label}`,
+      icon: Upload,
+      run: () => chooseImportFile(f),
+    })),
+    { id: "library", group: "Go to", label: "Library", icon: Library, run: () => setPanel("library") },
+    { id: "trash", group: "Go to", label: `Trash (${trashed.length})`, icon: Trash, run: () => setPanel("trash") },
+    { id: "labels", group: "Go to", label: "Manage categories and tags", icon: Settings2, run: () => setPanel("labels") },
+    { id: "chains", group: "Go to", label: "Chains", icon: Workflow, keywords: ["workflow", "steps"], run: () => setPanel("chains") },
+    {
+      id: "analytics",
+      group: "Go to",
+      label: "Usage analytics",
+      icon: BarChart3,
+      keywords: ["stats", "most used", "stale"],
+      run: () => setPanel("analytics"),
+    },
+    { id: "cat-all", group: "Go to", label: "All prompts", icon: Folder, run: () => goToCategory(ALL_CATEGORIES) },
+    {
+      id: "cat-uncategorized",
+      group: "Go to",
+      label: "Uncategorized",
+      icon: Folder,
+      keywords: ["category"],
+      run: () => goToCategory(UNCATEGORIZED),
+    },
+    ...flattenCategoryTree(categoryTree).map((c) => ({
+      id: `cat:${c.path}`,
+      group: "Go to",
+      label: c.path,
+      icon: Folder,
+      keywords: ["category"],
+      run: () => goToCategory(c.path),
+    })),
+    ...workspaces.workspaces
+      .filter((w) => w.id !== workspace.id)
+      .map((w) => ({
+        id: `workspace:${w.id}`,
+        group: "Go to",
+        label: `Workspace: ${w.name}`,
+        icon: Layers,
+        run: () => workspaces.switchTo(w.id),
+      })),
+    {
+      id: "theme",
+      group: "Preferences",
+      label: resolvedTheme === "dark" ? "Switch to light theme" : "Switch to dark theme",
+      icon: resolvedTheme === "dark" ? Sun : Moon,
+      keywords: ["toggle theme", "dark mode"],
+      run: () => setTheme(resolvedTheme === "dark" ? "light" : "dark"),
+    },
+    { id: "theme-system", group: "Preferences", label: "Use system theme", icon: Laptop2, run: () => setTheme("system") },
+    { id: "help", group: "Preferences", label: "Keyboard shortcuts", icon: Keyboard, shortcut: "?", run: () => setHelpOpen(true) },
+    {
+      id: "token-settings",
+      group: "Preferences",
+      label: "Token and cost estimates",
+      icon: Coins,
+      keywords: ["price", "model", "tokenizer"],
+      run: () => setTokenSettingsOpen(true),
+    },
+  ]
+
+  return (
+    <main className="mx-auto max-w-7xl p-4 md:p-8">
+      <header className="mb-6 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">
+            <button
+              className="hover:opacity-80 focus-visible:ring-ring/50 focus-visible:ring-[3px] rounded px-1 -mx-1"
+              onClick={() => {
+                filters.resetAll()
+                window.scrollTo({ top: 0, behavior: "smooth" })
+              }}
+              aria-label="Go home (reset filters)"
+              title="Home"
+            >
+              Prompt Manager
+            </button>
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Organize prompts by categories and tags. Search, filter, and export your library.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <WorkspaceSwitcher
+            workspaces={workspaces.workspaces}
+            active={workspace}
+            onSwitch={workspaces.switchTo}
+            onCreate={(name) =>
+              runWorkspaceAction(async () => {
+                const created = await workspaces.create(name)
+                workspaces.switchTo(created.id)
+              }, "Could not create workspace")
+            }
+            onRename={(id, name) => runWorkspaceAction(() => workspaces.rename(id, name), "Could not rename workspace")}
+            onDelete={(id) => runWorkspaceAction(() => workspaces.remove(id), "Could not delete workspace")}
+          />
+          <ThemeToggle />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPaletteOpen(true)}
+            aria-label="Open command palette"
+            title="Command palette (Ctrl/⌘ K)"
+          >
+            <Search className="h-4 w-4" />
+            <span className="ml-2 hidden text-xs text-muted-foreground sm:inline">Ctrl/⌘ K</span>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setHelpOpen(true)} aria-label="Keyboard shortcuts" title="Keyboard shortcuts (?)">
+            <Keyboard className="h-4 w-4" />
+          </Button>
+          {workspace.id === DEFAULT_WORKSPACE_ID ? (
+            <SyncToggle
+              mode={syncMode}
+              onModeChange={setSyncMode}
+              status={sync.status}
+              error={sync.error}
+              lastSyncedAt={sync.lastSyncedAt}
+              onSyncNow={sync.syncNow}
+            />
+          ) : null}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={FORMATS[importFormat].accept}
+            className="hidden"
+            onChange={handleImportFile}
+            aria-label={`Import ${FORMATS[importFormat].label}`}
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {(Object.keys(FORMATS) as LibraryFormat[]).map((f) => (
+                <DropdownMenuItem key={f} onClick={() => chooseImportFile(f)}>
+                  {FORMATS[f].label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">What to export</DropdownMenuLabel>
+              <DropdownMenuRadioGroup value={exportScope} onValueChange={(v) => setExportScope(v as ExportScope)}>
+                <DropdownMenuRadioItem value="all" onSelect={(e) => e.preventDefault()}>
+                  Whole library ({prompts.length})
+                </DropdownMenuRadioItem>
+                <DropdownMenuRadioItem value="filtered" onSelect={(e) => e.preventDefault()}>
+                  Current filter ({favoriteFirst.length})
+                </DropdownMenuRadioItem>
+                <DropdownMenuRadioItem
+                  value="selected"
+                  onSelect={(e) => e.preventDefault()}
+                  disabled={selectedPrompts.length === 0}
+                >
+                  Selected ({selectedPrompts.length})
+                </DropdownMenuRadioItem>
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Format</DropdownMenuLabel>
+              {(Object.keys(FORMATS) as LibraryFormat[]).map((f) => (
+                <DropdownMenuItem key={f} onClick={() => handleExport(f)}>
+                  {FORMATS[f].label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm">
+                <Plus className="mr-2 h-4 w-4" />
+                New Prompt
+              </Button>
+            </DialogTrigger>
+            <PromptForm
+              open={createOpen}
+              setOpen={setCreateOpen}
+              onSubmit={handleCreate}
+              allCategories={categories}
+              allTags={usedTags}
+              checkIncludes={(content, handle) => checkIncludes(content, handle)}
+            />
+          </Dialog>
+        </div>
+      </header>
+
+      {storageError ? (
+        <div
+          role="alert"
+          className="mb-6 flex items-start justify-between gap-3 rounded-lg border border-red-500/50 bg-red-500/10 p-3 text-sm"
+        >
+          <div>
+            <p className="font-medium">Could not {storageError.operation} — your changes may not be saved.</p>
+            <p className="text-muted-foreground">{storageError.message}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={clearStorageError} aria-label="Dismiss storage error">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : null}
+
+      <div className="gap-6 lg:grid lg:grid-cols-[240px_minmax(0,1fr)]">
+        <aside className="mb-6 lg:mb-0">
+          <div className="grid gap-4 lg:sticky lg:top-4">
+            <SmartCollections
+              collections={collections}
+              counts={collectionCounts}
+              activeId={activeCollection?.id ?? null}
+              canSave={!sameFilters(filters.current, DEFAULT_FILTERS) && !activeCollection}
+              onSelect={(c) => {
+                setPanel("library")
+                filters.apply(c.filters)
+              }}
+              onSave={handleSaveCollection}
+              onRename={handleRenameCollection}
+              onDelete={handleDeleteCollection}
+              onMove={handleMoveCollection}
+            />
+            <CategoryTree
+              tree={categoryTree}
+              total={prompts.length}
+              uncategorized={uncategorizedCount}
+              selected={filters.category}
+              onSelect={(c) => {
+                setPanel("library")
+                filters.setCategory(c)
+              }}
+              onDropPrompts={handleDropPrompts}
+            />
+          </div>
+        </aside>
+        <div>
+          <section className="mb-6 rounded-lg border bg-card p-4">
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  ref={searchInputRef}
+                  className="pl-8"
+                  placeholder='Search… try tag:seo or "exact phrase"'
+                  title='Fuzzy search across title, tags and content. Operators: tag:, cat:, fav:true, words:>200, chars:<500, -exclude, "exact phrase"'
+                  value={filters.search}
+                  onChange={(e) => filters.setSearch(e.target.value)}
+                  aria-label="Search"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <ListFilter className="h-4 w-4 text-muted-foreground" />
+                <Select value={filters.category} onValueChange={(v) => filters.setCategory(v as any)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                    {flattenCategoryTree(categoryTree).map((node) => (
+                      <SelectItem key={node.path} value={node.path}>
+                        <span style={{ paddingLeft: node.depth * 12 }}>{node.name}</span>
+                      </SelectItem>
+                    ))}
+                    {prompts.some((p) => !p.category) ? <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem> : null}
+                  </SelectContent>
+                </Select>
+                {filters.category !== ALL_CATEGORIES && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => filters.setCategory(ALL_CATEGORIES)}
+                    aria-label="Clear category filter"
+                    title="Clear category"
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Clear
+                  </Button>
+                )}
+                <Separator orientation="vertical" className="mx-1 h-6" />
+                <Select value={filters.sort} onValueChange={(v) => filters.setSort(v as any)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Sort by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="relevance">Best match</SelectItem>
+                    <SelectItem value="updated">Recently updated</SelectItem>
+                    <SelectItem value="created">Recently created</SelectItem>
+                    <SelectItem value="title">Title (A-Z)</SelectItem>
+                    <SelectItem value="longest">Longest first</SelectItem>
+                    <SelectItem value="shortest">Shortest first</SelectItem>
+                    <SelectItem value="most-used">Most used</SelectItem>
+                    <SelectItem value="recent">Recently used</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Filter className="h-4 w-4 text-muted-foreground" />
+                <Button
+                  variant={filters.tagMatch === "any" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => filters.setTagMatch("any")}
+                  aria-pressed={filters.tagMatch === "any"}
+                >
+                  Any tag
+                </Button>
+                <Button
+                  variant={filters.tagMatch === "all" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => filters.setTagMatch("all")}
+                  aria-pressed={filters.tagMatch === "all"}
+                >
+                  All tags
+                </Button>
+                {(filters.search || filters.category !== ALL_CATEGORIES || filters.selectedTags.length > 0) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={filters.resetAll}
+                    className="ml-auto"
+                    aria-label="Clear all filters"
+                    title="Clear all filters"
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Clear filters
+                  </Button>
+                )}
+              </div>
+            </div>
+            {usedTags.length > 0 ? (
+              <>
+                <Separator className="my-3" />
+                <ScrollArea className="h-[86px]">
+                  <div className="flex flex-wrap gap-2">
+                    {usedTags.map((t) => {
+                      const active = filters.selectedTags.includes(t)
+                      return (
+                        <button
+                          key={t}
+                          onClick={() =>
+                            filters.setSelectedTags(
+                              active ? filters.selectedTags.filter((x) => x !== t) : [...filters.selectedTags, t],
+                            )
+                          }
+                          className={cn(
+                            "rounded-full border px-2 py-1 text-xs",
+                            active ? "bg-foreground text-background" : "hover:bg-muted",
+                          )}
+                          aria-pressed={active}
+                          aria-label={`Filter by tag ${t}`}
+                        >
+                          <Tag className="mr-1 inline h-3 w-3" />
+                          {t}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </ScrollArea>
+              </>
+            ) : null}
+          </section>
+
+          {panel === "analytics" ? (
+            <UsageAnalytics
+              prompts={prompts}
+              events={usageEvents}
+              onOpenPrompt={openViewer}
+              onClose={() => setPanel("library")}
+            />
+          ) : panel === "chains" ? (
+            <ChainsView
+              chains={chains}
+              runs={chainRuns}
+              prompts={prompts}
+              expand={expandPrompt}
+              variableValues={variableValues}
+              onSave={handleSaveChain}
+              onDelete={handleDeleteChain}
+              onCopy={(p, text) => copyText(p, text)}
+              onCopyText={copyPlainText}
+              onSaveRun={handleSaveRun}
+              onDeleteRun={(id) => setChainRuns((prev) => prev.filter((r) => r.id !== id))}
+              onClose={() => setPanel("library")}
+            />
+          ) : panel === "labels" ? (
+            <LabelManager
+              categories={flattenCategoryTree(categoryTree)}
+              tagCounts={tagCounts}
+              styles={labelStyles}
+              onRenameCategory={handleRenameCategory}
+              onDeleteCategory={handleDeleteCategory}
+              onRenameTag={(from, to) => handleMergeTags([from], to)}
+              onMergeTags={handleMergeTags}
+              onDeleteTag={handleDeleteTag}
+              onStyle={handleLabelStyle}
+              onClose={() => setPanel("library")}
+            />
+          ) : panel === "trash" ? (
+            <TrashView
+              prompts={trashed}
+              onRestore={handleRestoreFromTrash}
+              onDeleteForever={handleDeleteForever}
+              onClose={() => setPanel("library")}
+            />
+          ) : (
+            <>
+              <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {favoriteFirst.length} of {prompts.length} prompts
+                </span>
+                <div className="ml-auto flex items-center gap-2">
+                  {history.length > 0 ? (
+                    <Button variant="ghost" size="sm" onClick={() => handleUndo()} title={`Undo: ${history[0].label}`}>
+                      <Undo2 className="mr-2 h-4 w-4" />
+                      Undo
+                    </Button>
+                  ) : null}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      exitSelectionMode()
+                      setPanel("trash")
+                    }}
+                  >
+                    <Trash className="mr-2 h-4 w-4" />
+                    Trash ({trashed.length})
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      exitSelectionMode()
+                      setPanel("labels")
+                    }}
+                  >
+                    <Settings2 className="mr-2 h-4 w-4" />
+                    Manage labels
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      exitSelectionMode()
+                      setPanel("chains")
+                    }}
+                  >
+                    <Workflow className="mr-2 h-4 w-4" />
+                    Chains ({chains.length})
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      exitSelectionMode()
+                      setPanel("analytics")
+                    }}
+                  >
+                    <BarChart3 className="mr-2 h-4 w-4" />
+                    Analytics
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTokenSettingsOpen(true)}
+                    title="Model prices and the tokenizer used for estimates"
+                  >
+                    <Coins className="mr-2 h-4 w-4" />
+                    {cardModel ? cardModel.name : "Costs"}
+                  </Button>
+                  {selectionMode ? null : (
+                    <Button variant="outline" size="sm" onClick={() => setSelectionMode(true)}>
+                      <ListChecks className="mr-2 h-4 w-4" />
+                      Select
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {selectionMode ? (
+                <div className="sticky top-2 z-10 mb-4">
+                  <BulkActionsBar
+                    count={selectedPrompts.length}
+                    filteredCount={favoriteFirst.length}
+                    allFilteredSelected={allFilteredSelected}
+                    onSelectAll={() => setSelectedIds(new Set(favoriteFirst.map((p) => p.id)))}
+                    onClear={() => setSelectedIds(new Set())}
+                    onDone={exitSelectionMode}
+                    categories={categories}
+                    tagSuggestions={tags}
+                    selectedTags={selectedTags}
+                    onDelete={handleBulkDelete}
+                    onMove={handleBulkMove}
+                    onTags={handleBulkTags}
+                    onFavorite={handleBulkFavorite}
+                    onExport={(format) => handleExport(format, "selected")}
+                    onDuplicate={handleBulkDuplicate}
+                    onCombine={handleCombineVariants}
+                    workspaces={workspaces.workspaces.filter((w) => w.id !== workspace.id)}
+                    onTransfer={handleTransfer}
+                  />
+                </div>
+              ) : null}
+
+              <section className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+                {favoriteFirst.map((p) => (
+                  <PromptCard
+                    key={p.id}
+                    prompt={p}
+                    selectable={selectionMode}
+                    selected={selectedIds.has(p.id)}
+                    onSelectedChange={(v, range) => setSelected(p.id, v, range)}
+                    onEdit={() => {
+                      setEditing(p)
+                      setEditOpen(true)
+                    }}
+                    onDelete={() => handleDelete(p.id)}
+                    onToggleFavorite={() => handleToggleFavorite(p.id)}
+                    onCopy={() => handleCopy(p)}
+                    onView={() => openViewer(p)}
+                    isCopied={copiedIds.has(p.id)}
+                    hit={hitsById.get(p.id)}
+                    labelStyles={labelStyles}
+                    dragIds={selectionMode && selectedIds.has(p.id) ? Array.from(selectedIds) : [p.id]}
+                    active={activeCardId === p.id}
+                    onActivate={() => setActiveCardId(p.id)}
+                    tokens={countTokens ? countTokens(p.content) : null}
+                    model={cardModel}
+                    onCompare={() => openCompare(p)}
+                    onTests={() => openTests(p)}
+                  />
+                ))}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Edit Dialog */}
+      <PromptForm
+        open={editOpen}
+        setOpen={(v) => {
+          if (!v) setEditing(null)
+          setEditOpen(v)
+        }}
+        onSubmit={handleEdit}
+        initial={editing || undefined}
+        allCategories={categories}
+        allTags={usedTags}
+        checkIncludes={(content, handle) => checkIncludes(content, handle, editing?.id)}
+      />
+
+      {/* View Dialog (read-only, for long prompts) */}
+      <Dialog
+        open={viewOpen}
+        onOpenChange={(v) => {
+          if (!v) {
+            setViewing(null)
+            setRunOpen(false)
+          }
+          setViewOpen(v)
+        }}
+      >
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-start justify-between gap-2">
+              <span className="text-base">{viewing?.title || "Prompt"}</span>
+            </DialogTitle>
+          </DialogHeader>
+          {viewing ? (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                {viewing.category ? (
+                  <LabelBadge kind="category" label={viewing.category} style={labelStyles.categories[viewing.category]} />
+                ) : null}
+                {viewing.tags.map((t) => (
+                  <LabelBadge key={t} kind="tag" label={t} style={labelStyles.tags[t]} />
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                {viewingExpansion ? (
+                  <>
+                    <Button
+                      variant={showExpanded ? "ghost" : "secondary"}
+                      size="sm"
+                      onClick={() => setShowExpanded(false)}
+                      aria-pressed={!showExpanded}
+                    >
+                      Source
+                    </Button>
+                    <Button
+                      variant={showExpanded ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setShowExpanded(true)}
+                      aria-pressed={showExpanded}
+                    >
+                      Expanded
+                    </Button>
+                  </>
+                ) : null}
+                <div className="ml-auto flex items-center gap-1">
+                  <Button
+                    variant={showRaw ? "ghost" : "secondary"}
+                    size="sm"
+                    onClick={() => setShowRaw(false)}
+                    aria-pressed={!showRaw}
+                  >
+                    Formatted
+                  </Button>
+                  <Button
+                    variant={showRaw ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setShowRaw(true)}
+                    aria-pressed={showRaw}
+                  >
+                    Raw
+                  </Button>
+                </div>
+              </div>
+              {showRaw ? (
+                <div className="rounded-md border bg-muted/30 p-3 font-mono text-sm leading-relaxed max-h-[50vh] overflow-auto whitespace-pre-wrap">
+                  {viewingText}
+                </div>
+              ) : (
+                <MarkdownPreview
+                  content={viewingText}
+                  className="max-h-[50vh] overflow-auto rounded-md border p-3"
+                />
+              )}
+              <PromptStats
+                text={viewingText}
+                settings={tokenSettings}
+              />
+              {viewingExpansion?.cycle ? (
+                <p role="alert" className="text-xs text-red-600">
+                  Include cycle: {viewingExpansion.cycle.join(" → ")}. The repeated include is left as is.
+                </p>
+              ) : null}
+              {viewingExpansion && viewingExpansion.missing.length > 0 ? (
+                <p className="text-xs text-amber-600">Unknown includes: {viewingExpansion.missing.join(", ")}</p>
+              ) : null}
+              {runOpen ? (
+                <section className="space-y-3 rounded-md border p-3">
+                  <h3 className="text-sm font-medium">Run</h3>
+                  <PromptPlayground
+                    key={viewing.id}
+                    prompt={viewing}
+                    content={viewingExpansion?.text ?? viewing.content}
+                    initialValues={variableValues[viewing.id]}
+                    settings={llmSettings}
+                    onSettingsChange={setLlmSettings}
+                    onRun={(run) => handleRunsRecorded(viewing.id, [run])}
+                    onCopyText={copyPlainText}
+                  />
+                </section>
+              ) : null}
+              {viewing.handle ? (
+                <div className="space-y-1">
+                  <h3 className="text-xs font-medium">
+                    Used by{" "}
+                    <span className="font-normal text-muted-foreground">
+                      (include with <code className="font-mono">{includeTag(viewing.handle)}</code>)
+                    </span>
+                  </h3>
+                  {viewingUsedBy.length > 0 ? (
+                    <ul className="flex flex-wrap gap-2">
+                      {viewingUsedBy.map((p) => (
+                        <li key={p.id}>
+                          <button
+                            className="rounded-full border px-2 py-0.5 text-xs hover:bg-muted"
+                            onClick={() => openViewer(p)}
+                          >
+                            {p.title}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No prompts include it yet.</p>
+                  )}
+                </div>
+              ) : null}
+              {viewingVariables.length > 0 ? (
+                <div className="space-y-1">
+                  <h3 className="text-xs font-medium">Variables</h3>
+                  <ul className="grid gap-1 text-xs text-muted-foreground">
+                    {viewingVariables.map((v) => (
+                      <li key={v.name}>
+                        <span className="font-mono text-foreground">{v.name}</span>
+                        {v.required ? " (required)" : v.defaultValue ? ` (default: ${v.defaultValue})` : " (optional)"}
+                        {v.description ? ` — ${v.description}` : null}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+              <div className="text-xs text-muted-foreground">
+                {"Uses: "}
+                {viewing.uses} {" • Created: "}
+                {new Date(viewing.createdAt).toLocaleString()} {" • Updated: "}
+                {new Date(viewing.updatedAt).toLocaleString()}
+              </div>
+              <Separator />
+              <RevisionHistory
+                prompt={viewing}
+                author={author}
+                onAuthorChange={setAuthor}
+                onRestore={(r) => handleRestore(viewing.id, r)}
+              />
+            </div>
+          ) : null}
+          <DialogFooter className="flex-wrap gap-2">
+            <Button
+              variant={isViewingCopied ? "secondary" : "outline"}
+              className={cn(isViewingCopied && "animate-pulse")}
+              onClick={() => {
+                if (viewing) handleCopy(viewing)
+              }}
+              aria-live="polite"
+            >
+              {isViewingCopied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+              {isViewingCopied ? "Copied" : "Copy"}
+            </Button>
+            <Button
+              variant={runOpen ? "secondary" : "outline"}
+              onClick={() => setRunOpen((v) => !v)}
+              aria-pressed={runOpen}
+            >
+              <Play className="mr-2 h-4 w-4" />
+              Run
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (viewing) openCompare(viewing)
+              }}
+            >
+              <GitCompare className="mr-2 h-4 w-4" />
+              {viewing?.variants?.length ? `Variants (${viewing.variants.length})` : "Add variant"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (viewing) openTests(viewing)
+              }}
+            >
+              <FlaskConical className="mr-2 h-4 w-4" />
+              {viewing?.testCases?.length ? `Tests (${viewing.testCases.length})` : "Add tests"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (viewing) copyLink(viewing)
+              }}
+            >
+              <Link2 className="mr-2 h-4 w-4" />
+              Copy link
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => {
+                if (!viewing) return
+                setEditing(viewing)
+                setEditOpen(true)
+                setViewOpen(false)
+              }}
+            >
+              <Edit className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (viewing) handleDelete(viewing.id)
+              }}
+            >
+              <Trash className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+            <Button onClick={() => setViewOpen(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ImportPreviewDialog
+        open={importPreview !== null}
+        setOpen={(v) => {
+          if (!v) setImportPreview(null)
+        }}
+        fileName={importPreview?.fileName || ""}
+        preview={importPreview?.preview || null}
+        onConfirm={handleImportConfirm}
+      />
+
+      {/* Variable fill-in form, opened by Copy on prompts with {{variables}} */}
+      <VariableFillDialog
+        open={fillOpen}
+        setOpen={(v) => {
+          if (!v) setFilling(null)
+          setFillOpen(v)
+        }}
+        prompt={filling}
+        content={filling ? expandIncludes(filling.content, handles, filling.handle).text : undefined}
+        initialValues={filling ? variableValues[filling.id] : undefined}
+        onCopy={handleFilledCopy}
+      />
+
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        prompts={prompts}
+        commands={paletteCommands}
+        onOpenPrompt={(p) => {
+          setPanel("library")
+          openViewer(p)
+        }}
+      />
+      <ShortcutHelp open={helpOpen} onOpenChange={setHelpOpen} />
+      <VariantCompareDialog
+        open={comparing !== null}
+        onOpenChange={(v) => {
+          if (!v) setCompareId(null)
+        }}
+        prompt={comparing}
+        expand={(content) => (comparing ? expandIncludes(content, handles, comparing.handle).text : content)}
+        initialValues={comparing ? variableValues[comparing.id] : undefined}
+        settings={llmSettings}
+        onSettingsChange={setLlmSettings}
+        onChange={(label, update, options) =>
+          comparing && handleVariantChange(comparing.id, label, update, options)
+        }
+        onRecordRuns={(runs) => comparing && handleRunsRecorded(comparing.id, runs)}
+        onRate={(runId, rating) => comparing && handleRateRun(comparing.id, runId, rating)}
+        onPromote={(variantId) => comparing && handlePromoteVariant(comparing.id, variantId)}
+        onCopyText={copyPlainText}
+      />
+      <PromptTestsDialog
+        open={testing !== null}
+        onOpenChange={(v) => {
+          if (!v) setTestsId(null)
+        }}
+        prompt={testing}
+        content={testing ? expandPrompt(testing) : ""}
+        settings={llmSettings}
+        onSettingsChange={setLlmSettings}
+        onSaveCases={(cases) => testing && handleSaveTestCases(testing.id, cases)}
+        onRecordReport={(report) => testing && handleTestReport(testing.id, report)}
+      />
+      <TokenSettingsDialog
+        open={tokenSettingsOpen}
+        onOpenChange={setTokenSettingsOpen}
+        settings={tokenSettings}
+        onSave={setTokenSettings}
+      />
+    </main>
+  )
+}
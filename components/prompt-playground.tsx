@@ -0,0 +1,181 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { LlmSettingsFields, parseLlmDraft, toLlmDraft } from "@/components/llm-settings-fields"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { executeRun } from "@/lib/llm"
+import { missingRequired, parseVariables, renderTemplate } from "@/lib/template"
+import type { LlmSettings, Prompt, PromptRun } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { Copy, Play, Square } from "lucide-react"
+
+export function formatMs(ms: number) {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+export function runSummary(run: PromptRun) {
+  const parts = [run.params.model, `temp ${run.params.temperature}`, formatMs(run.latencyMs)]
+  if (run.firstTokenMs !== undefined) parts.push(`first token ${formatMs(run.firstTokenMs)}`)
+  return parts.join(" · ")
+}
+
+export function PromptPlayground({
+  prompt,
+  content,
+  initialValues,
+  settings,
+  onSettingsChange,
+  onRun,
+  onCopyText,
+}: {
+  prompt: Prompt
+  // The prompt text with includes expanded; variables are filled in here.
+  content: string
+  initialValues?: Record<string, string>
+  settings: LlmSettings
+  onSettingsChange: (settings: LlmSettings) => void
+  onRun: (run: PromptRun) => void
+  onCopyText: (text: string) => void
+}) {
+  const variables = useMemo(() => parseVariables(content), [content])
+  const [values, setValues] = useState<Record<string, string>>(initialValues || {})
+  const [draft, setDraft] = useState(() => toLlmDraft(settings))
+  const [output, setOutput] = useState("")
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Leaving the prompt or closing the dialog cancels a run in flight.
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const missing = missingRequired(variables, values)
+  const rendered = renderTemplate(content, values)
+  const parsed = parseLlmDraft(draft)
+
+  async function handleRun(e: React.FormEvent) {
+    e.preventDefault()
+    if (running || !parsed || missing.length > 0) return
+    onSettingsChange(parsed)
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRunning(true)
+    setOutput("")
+    setError(null)
+    const run = await executeRun(parsed, rendered, { signal: controller.signal, onOutput: setOutput })
+    if (run.status === "error") setError(run.error || "Run failed")
+    onRun(run)
+    if (abortRef.current === controller) abortRef.current = null
+    setRunning(false)
+  }
+
+  // Runs started from the comparison view are listed there.
+  const runs = (prompt.runs || []).filter((r) => !r.comparisonId)
+
+  return (
+    <div className="grid gap-4">
+      <form onSubmit={handleRun} className="grid gap-3">
+        {variables.length > 0 ? (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {variables.map((v) => (
+              <div key={v.name} className="grid gap-1">
+                <Label htmlFor={`run-var-${v.name}`} className="font-mono text-xs">
+                  {v.name}
+                  {v.required ? " *" : ""}
+                </Label>
+                <Input
+                  id={`run-var-${v.name}`}
+                  value={values[v.name] ?? ""}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [v.name]: e.target.value }))}
+                  placeholder={v.defaultValue ? `Default: ${v.defaultValue}` : v.required ? "Required" : "Optional"}
+                />
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        <LlmSettingsFields draft={draft} onChange={setDraft} idPrefix="run" />
+
+        <div className="flex items-center gap-2">
+          {running ? (
+            <Button type="button" variant="outline" onClick={() => abortRef.current?.abort()}>
+              <Square className="mr-2 h-4 w-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!parsed || missing.length > 0}
+              title={missing.length > 0 ? `Fill in: ${missing.join(", ")}` : undefined}
+            >
+              <Play className="mr-2 h-4 w-4" />
+              Run
+            </Button>
+          )}
+          {running ? <span className="text-xs text-muted-foreground">Streaming…</span> : null}
+        </div>
+      </form>
+
+      {error ? (
+        <p role="alert" className="text-xs text-red-600">
+          {error}
+        </p>
+      ) : null}
+      {output || running ? (
+        <pre
+          className="max-h-[40vh] overflow-auto whitespace-pre-wrap rounded-md border p-3 text-sm"
+          aria-live="polite"
+          aria-busy={running}
+        >
+          {output}
+        </pre>
+      ) : null}
+
+      <div className="grid gap-2">
+        <h3 className="text-xs font-medium">Runs ({runs.length})</h3>
+        {runs.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Runs are saved with the prompt.</p>
+        ) : (
+          runs.map((run) => (
+            <details key={run.id} className="rounded-md border bg-card p-2 text-xs">
+              <summary className="flex cursor-pointer flex-wrap items-center gap-2">
+                <span>{new Date(run.createdAt).toLocaleString()}</span>
+                <span className="text-muted-foreground">{runSummary(run)}</span>
+                {run.status !== "done" ? (
+                  <span className={cn(run.status === "error" ? "text-red-600" : "text-amber-600")}>{run.status}</span>
+                ) : null}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto h-6 w-6"
+                  onClick={(e) => {
+                    e.preventDefault()
+                    onCopyText(run.output)
+                  }}
+                  disabled={!run.output}
+                  aria-label="Copy output"
+                  title="Copy output"
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                </Button>
+              </summary>
+              <div className="mt-2 grid gap-2">
+                <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded border bg-muted/30 p-2 font-mono">
+                  {run.input}
+                </pre>
+                {run.error ? <p className="text-red-600">{run.error}</p> : null}
+                <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded border p-2">
+                  {run.output || "No output"}
+                </pre>
+                <p className="text-muted-foreground">
+                  {run.params.baseUrl} · max tokens {run.params.maxTokens}
+                </p>
+              </div>
+            </details>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useTokenCounter } from "@/hooks/use-token-counter"
+import { estimateCost, formatCost, formatCount, textStats, TOKENIZERS } from "@/lib/tokens"
+import type { TokenSettings } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+// Size of `text` under every bundled tokenizer, with the input cost for each priced model.
+export function PromptStats({
+  text,
+  settings,
+  className,
+}: {
+  text: string
+  settings: TokenSettings
+  className?: string
+}) {
+  const counters = {
+    cl100k: useTokenCounter("cl100k"),
+    o200k: useTokenCounter("o200k"),
+  }
+  const { characters, words } = textStats(text)
+  const tokens = Object.fromEntries(TOKENIZERS.map((t) => [t.id, counters[t.id]?.(text) ?? null]))
+
+  return (
+    <div className={cn("grid gap-2 text-xs text-muted-foreground", className)}>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <span>{formatCount(characters)} characters</span>
+        <span>{formatCount(words)} words</span>
+        {TOKENIZERS.map((t) => (
+          <span key={t.id} title={`Used by ${t.models}`}>
+            {tokens[t.id] === null ? "…" : `≈ ${formatCount(tokens[t.id]!)}`} tokens ({t.name})
+          </span>
+        ))}
+      </div>
+      {settings.prices.length > 0 ? (
+        <details>
+          <summary className="cursor-pointer">Estimated input cost</summary>
+          <table className="mt-2 w-full max-w-md">
+            <tbody>
+              {settings.prices.map((p) => {
+                const n = tokens[p.tokenizer]
+                return (
+                  <tr key={p.id} className={cn(p.id === settings.modelId && "font-medium text-foreground")}>
+                    <td className="py-0.5 pr-4">{p.name}</td>
+                    <td className="py-0.5 pr-4 tabular-nums">{n === null ? "…" : `${formatCount(n)} tokens`}</td>
+                    <td className="py-0.5 text-right tabular-nums">
+                      {n === null ? "…" : formatCost(estimateCost(n, p))}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </details>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,477 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { LlmSettingsFields, parseLlmDraft, toLlmDraft } from "@/components/llm-settings-fields"
+import { formatMs } from "@/components/prompt-playground"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  ASSERTION_TYPES,
+  assertionProblem,
+  baselineReport,
+  createAssertion,
+  createTestCase,
+  currentRevisionId,
+  nextTestCaseName,
+  passCount,
+  regressions,
+  revisionNumber,
+  runTestSuite,
+} from "@/lib/evals"
+import { parseVariables } from "@/lib/template"
+import type {
+  LlmSettings,
+  Prompt,
+  PromptTestCase,
+  PromptVariable,
+  TestAssertion,
+  TestAssertionType,
+  TestCaseResult,
+  TestReport,
+} from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { Check, FlaskConical, Play, Plus, Square, Trash, X } from "lucide-react"
+
+function AssertionEditor({
+  assertion,
+  onChange,
+  onRemove,
+}: {
+  assertion: TestAssertion
+  onChange: (assertion: TestAssertion) => void
+  onRemove: () => void
+}) {
+  const a = assertion
+  const problem = assertionProblem(a)
+  return (
+    <div className="grid gap-1">
+      <div className="flex items-start gap-2">
+        <Select
+          value={a.type}
+          onValueChange={(type) => onChange({ ...createAssertion(type as TestAssertionType), id: a.id })}
+        >
+          <SelectTrigger className="h-8 w-40 shrink-0" aria-label="Check">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ASSERTION_TYPES.map((t) => (
+              <SelectItem key={t.type} value={t.type}>
+                {t.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {a.type === "contains" ? (
+          <Input
+            className="h-8"
+            value={a.value}
+            onChange={(e) => onChange({ ...a, value: e.target.value })}
+            placeholder="Text the answer must contain"
+            aria-label="Expected text"
+          />
+        ) : a.type === "regex" ? (
+          <>
+            <Input
+              className="h-8 font-mono"
+              value={a.pattern}
+              onChange={(e) => onChange({ ...a, pattern: e.target.value })}
+              placeholder="^\d+ items?$"
+              aria-label="Pattern"
+            />
+            <Input
+              className="h-8 w-16 font-mono"
+              value={a.flags}
+              onChange={(e) => onChange({ ...a, flags: e.target.value })}
+              placeholder="flags"
+              aria-label="Flags"
+            />
+          </>
+        ) : a.type === "json-schema" ? (
+          <Textarea
+            rows={4}
+            className="font-mono text-xs"
+            value={a.schema}
+            onChange={(e) => onChange({ ...a, schema: e.target.value })}
+            aria-label="JSON schema"
+          />
+        ) : (
+          <Input
+            className="h-8 w-32"
+            type="number"
+            min={0}
+            step={1}
+            value={Number.isNaN(a.max) ? "" : a.max}
+            onChange={(e) => onChange({ ...a, max: e.target.value === "" ? NaN : Number(e.target.value) })}
+            aria-label="Maximum characters"
+          />
+        )}
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onRemove} aria-label="Remove check">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {problem ? <p className="text-xs text-red-600">{problem}</p> : null}
+    </div>
+  )
+}
+
+function CaseEditor({
+  testCase,
+  variables,
+  onChange,
+  onRemove,
+}: {
+  testCase: PromptTestCase
+  variables: PromptVariable[]
+  onChange: (testCase: PromptTestCase) => void
+  onRemove: () => void
+}) {
+  const c = testCase
+  const setAssertion = (id: string, next: TestAssertion) =>
+    onChange({ ...c, assertions: c.assertions.map((a) => (a.id === id ? next : a)) })
+
+  return (
+    <div className="grid gap-3 rounded-lg border bg-card p-3">
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 font-medium"
+          value={c.name}
+          onChange={(e) => onChange({ ...c, name: e.target.value })}
+          aria-label="Case name"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={onRemove}
+          aria-label={`Delete ${c.name}`}
+        >
+          <Trash className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {variables.length > 0 ? (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {variables.map((v) => (
+            <div key={v.name} className="grid gap-1">
+              <Label htmlFor={`test-${c.id}-${v.name}`} className="font-mono text-xs">
+                {v.name}
+                {v.required ? " *" : ""}
+              </Label>
+              <Input
+                id={`test-${c.id}-${v.name}`}
+                className="h-8"
+                value={c.values[v.name] ?? ""}
+                onChange={(e) => onChange({ ...c, values: { ...c.values, [v.name]: e.target.value } })}
+                placeholder={v.defaultValue ? `Default: ${v.defaultValue}` : v.required ? "Required" : "Optional"}
+              />
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="grid gap-2">
+        <span className="text-xs font-medium">The answer…</span>
+        {c.assertions.map((a) => (
+          <AssertionEditor
+            key={a.id}
+            assertion={a}
+            onChange={(next) => setAssertion(a.id, next)}
+            onRemove={() => onChange({ ...c, assertions: c.assertions.filter((x) => x.id !== a.id) })}
+          />
+        ))}
+        <div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={() => onChange({ ...c, assertions: [...c.assertions, createAssertion("contains")] })}
+          >
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Add check
+          </Button>
+        </div>
+      </div>
+
+      <details className="text-xs">
+        <summary className="cursor-pointer text-muted-foreground">
+          Mock answer{c.mockOutput ? "" : ": echoes the filled-in prompt"}
+        </summary>
+        <Textarea
+          rows={3}
+          className="mt-2 font-mono text-xs"
+          value={c.mockOutput ?? ""}
+          onChange={(e) => onChange({ ...c, mockOutput: e.target.value || undefined })}
+          placeholder="What the mock model answers for this case"
+          aria-label="Mock answer"
+        />
+      </details>
+    </div>
+  )
+}
+
+function ResultRow({ result }: { result: TestCaseResult }) {
+  return (
+    <details className="rounded-md border p-2 text-xs">
+      <summary className="flex cursor-pointer items-center gap-2">
+        {result.passed ? (
+          <Check className="h-3.5 w-3.5 text-green-600" aria-label="Passed" />
+        ) : (
+          <X className="h-3.5 w-3.5 text-red-600" aria-label="Failed" />
+        )}
+        <span className="font-medium">{result.name}</span>
+        <span className="text-muted-foreground">{formatMs(result.latencyMs)}</span>
+      </summary>
+      <div className="mt-2 grid gap-2">
+        {result.failures.length > 0 ? (
+          <ul className="grid gap-0.5 text-red-600">
+            {result.failures.map((f, i) => (
+              <li key={i}>{f}</li>
+            ))}
+          </ul>
+        ) : null}
+        <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded border bg-muted/30 p-2 font-mono">
+          {result.input}
+        </pre>
+        <pre className="max-h-60 overflow-auto whitespace-pre-wrap rounded border p-2">
+          {result.output || "No output"}
+        </pre>
+      </div>
+    </details>
+  )
+}
+
+export function PromptTestsDialog({
+  open,
+  onOpenChange,
+  prompt,
+  content,
+  settings,
+  onSettingsChange,
+  onSaveCases,
+  onRecordReport,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  prompt: Prompt | null
+  // The prompt text with includes expanded, as it will be sent.
+  content: string
+  settings: LlmSettings
+  onSettingsChange: (settings: LlmSettings) => void
+  onSaveCases: (cases: PromptTestCase[]) => void
+  onRecordReport: (report: TestReport) => void
+}) {
+  const [cases, setCases] = useState<PromptTestCase[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [target, setTarget] = useState<TestReport["target"]>("mock")
+  const [draft, setDraft] = useState(() => toLlmDraft(settings))
+  const [live, setLive] = useState<TestCaseResult[] | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    if (!open || !prompt) return
+    setCases(prompt.testCases || [])
+    setDirty(false)
+    setDraft(toLlmDraft(settings))
+    setLive(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, prompt?.id])
+
+  useEffect(() => {
+    if (!open) abortRef.current?.abort()
+  }, [open])
+
+  if (!prompt) return null
+
+  const variables = parseVariables(content)
+  const invalid = cases.some((c) => !c.name.trim() || c.assertions.some((a) => assertionProblem(a)))
+  const parsed = parseLlmDraft(draft)
+  const running = live !== null
+  const reports = prompt.testReports || []
+  const current = currentRevisionId(prompt)
+
+  function edit(next: PromptTestCase[]) {
+    setCases(next)
+    setDirty(true)
+  }
+
+  function handleSave() {
+    onSaveCases(cases.map((c) => ({ ...c, name: c.name.trim() })))
+    setDirty(false)
+  }
+
+  async function handleRun(e: React.FormEvent) {
+    e.preventDefault()
+    if (running || invalid || cases.length === 0) return
+    const settingsToUse = target === "model" ? parsed : settings
+    if (!settingsToUse) return
+    // Running saves pending edits first, so the report matches the cases on record.
+    if (dirty) handleSave()
+    if (target === "model") onSettingsChange(settingsToUse)
+    const controller = new AbortController()
+    abortRef.current = controller
+    setLive([])
+    const report = await runTestSuite({ ...prompt!, testCases: cases }, content, {
+      target,
+      settings: settingsToUse,
+      signal: controller.signal,
+      onResult: (result) => setLive((prev) => [...(prev || []), result]),
+    })
+    if (report) onRecordReport(report)
+    if (abortRef.current === controller) abortRef.current = null
+    setLive(null)
+  }
+
+  function revisionLabel(revisionId: string) {
+    if (revisionId === current) return "current revision"
+    const n = revisionNumber(prompt!, revisionId)
+    return n ? `revision ${n}` : "an older revision"
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Tests</DialogTitle>
+          <DialogDescription>
+            {prompt.title}. Each case fills in the variables and checks the answer; reports are filed under the revision
+            they ran against.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3">
+          {cases.length === 0 ? (
+            <p className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+              No test cases yet. Add one to describe an input and what a good answer looks like.
+            </p>
+          ) : (
+            cases.map((c) => (
+              <CaseEditor
+                key={c.id}
+                testCase={c}
+                variables={variables}
+                onChange={(next) => edit(cases.map((x) => (x.id === c.id ? next : x)))}
+                onRemove={() => edit(cases.filter((x) => x.id !== c.id))}
+              />
+            ))
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => edit([...cases, createTestCase(nextTestCaseName(cases))])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add case
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!dirty || invalid}>
+              Save cases
+            </Button>
+            {dirty ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setCases(prompt.testCases || [])
+                  setDirty(false)
+                }}
+              >
+                Discard changes
+              </Button>
+            ) : null}
+            {invalid ? <span className="text-xs text-red-600">Fix the highlighted checks to save.</span> : null}
+          </div>
+        </div>
+
+        <form onSubmit={handleRun} className="grid gap-3 rounded-lg border p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Label htmlFor="test-target" className="text-sm font-medium">
+              Run against
+            </Label>
+            <Select value={target} onValueChange={(v) => setTarget(v as TestReport["target"])}>
+              <SelectTrigger id="test-target" className="h-8 w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mock">Mock model (offline, repeatable)</SelectItem>
+                <SelectItem value="model">Model endpoint</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {target === "model" ? <LlmSettingsFields draft={draft} onChange={setDraft} idPrefix="test" /> : null}
+          <div className="flex items-center gap-2">
+            {running ? (
+              <Button type="button" variant="outline" onClick={() => abortRef.current?.abort()}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              <Button type="submit" disabled={cases.length === 0 || invalid || (target === "model" && !parsed)}>
+                <Play className="mr-2 h-4 w-4" />
+                Run {cases.length} case{cases.length === 1 ? "" : "s"}
+              </Button>
+            )}
+            {running ? (
+              <span className="text-xs text-muted-foreground" aria-live="polite">
+                {live.length} of {cases.length} done…
+              </span>
+            ) : null}
+          </div>
+          {live && live.length > 0 ? (
+            <div className="grid gap-1">
+              {live.map((r) => (
+                <ResultRow key={r.caseId} result={r} />
+              ))}
+            </div>
+          ) : null}
+        </form>
+
+        <div className="grid gap-2">
+          <h3 className="text-sm font-medium">Reports ({reports.length})</h3>
+          {reports.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Run the suite to get a pass/fail report for this revision.</p>
+          ) : (
+            reports.map((report, i) => {
+              const baseline = baselineReport(prompt, report)
+              const regressed = regressions(report, baseline)
+              const passed = passCount(report)
+              return (
+                <details key={report.id} open={i === 0} className="rounded-md border p-2 text-sm">
+                  <summary className="flex cursor-pointer flex-wrap items-center gap-2 text-xs">
+                    <FlaskConical className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span
+                      className={cn(
+                        "font-medium",
+                        passed === report.results.length ? "text-green-600" : "text-red-600",
+                      )}
+                    >
+                      {passed}/{report.results.length} passed
+                    </span>
+                    <span className="text-muted-foreground">
+                      {revisionLabel(report.revisionId)} · {report.params ? report.params.model : "mock"} ·{" "}
+                      {new Date(report.createdAt).toLocaleString()}
+                    </span>
+                    {regressed.length > 0 ? (
+                      <Badge variant="destructive" title={regressed.map((r) => r.name).join(", ")}>
+                        {regressed.length} regressed since {revisionLabel(baseline!.revisionId)}
+                      </Badge>
+                    ) : null}
+                  </summary>
+                  <div className="mt-2 grid gap-1">
+                    {report.results.map((r) => (
+                      <ResultRow key={r.caseId} result={r} />
+                    ))}
+                  </div>
+                </details>
+              )
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
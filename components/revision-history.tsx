@@ -0,0 +1,174 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { diffLines } from "@/lib/diff"
+import { revisionsOf } from "@/lib/revisions"
+import type { Prompt, PromptRevision } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { History, RotateCcw } from "lucide-react"
+
+function revisionLabel(r: PromptRevision, index: number) {
+  return `#${index + 1} • ${new Date(r.createdAt).toLocaleString()}`
+}
+
+export function RevisionHistory({
+  prompt,
+  author,
+  onAuthorChange,
+  onRestore,
+}: {
+  prompt: Prompt
+  author: string
+  onAuthorChange: (name: string) => void
+  onRestore: (revision: PromptRevision) => void
+}) {
+  const revisions = useMemo(() => revisionsOf(prompt), [prompt])
+  const last = revisions.length - 1
+  const [fromId, setFromId] = useState(revisions[Math.max(0, last - 1)].id)
+  const [toId, setToId] = useState(revisions[last].id)
+
+  // Default to comparing the two most recent revisions whenever history grows.
+  useEffect(() => {
+    setFromId(revisions[Math.max(0, last - 1)].id)
+    setToId(revisions[last].id)
+  }, [prompt.id, revisions, last])
+
+  const from = revisions.find((r) => r.id === fromId) || revisions[0]
+  const to = revisions.find((r) => r.id === toId) || revisions[last]
+  const diff = useMemo(() => diffLines(from.content, to.content), [from.content, to.content])
+  const currentId = revisions[last].id
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium">History ({revisions.length})</h3>
+        <div className="ml-auto flex items-center gap-2">
+          <Label htmlFor="revision-author" className="text-xs text-muted-foreground">
+            Editing as
+          </Label>
+          <Input
+            id="revision-author"
+            className="h-8 w-40"
+            value={author}
+            onChange={(e) => onAuthorChange(e.target.value)}
+            placeholder="Your name"
+          />
+        </div>
+      </div>
+
+      <ul className="max-h-40 space-y-1 overflow-auto rounded-md border p-2 text-xs">
+        {revisions
+          .map((r, i) => ({ r, i }))
+          .reverse()
+          .map(({ r, i }) => (
+            <li key={r.id} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{revisionLabel(r, i)}</span>
+              <span className="text-muted-foreground">by {r.author || "unknown"}</span>
+              {i === 0 ? (
+                <Badge variant="outline">created</Badge>
+              ) : (
+                r.changes.map((c) => (
+                  <Badge key={c} variant="secondary">
+                    {c}
+                  </Badge>
+                ))
+              )}
+              {r.restoredFrom ? (
+                <span className="text-muted-foreground">
+                  restored from #{revisions.findIndex((x) => x.id === r.restoredFrom) + 1}
+                </span>
+              ) : null}
+              {r.id !== currentId ? (
+                <Button variant="ghost" size="sm" className="ml-auto h-6 px-2" onClick={() => onRestore(r)}>
+                  <RotateCcw className="mr-1 h-3 w-3" />
+                  Restore
+                </Button>
+              ) : (
+                <span className="ml-auto text-muted-foreground">current</span>
+              )}
+            </li>
+          ))}
+      </ul>
+
+      {revisions.length > 1 ? (
+        <>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Select value={from.id} onValueChange={setFromId}>
+              <SelectTrigger className="w-full" aria-label="Compare from revision">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((r, i) => (
+                  <SelectItem key={r.id} value={r.id}>
+                    {revisionLabel(r, i)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={to.id} onValueChange={setToId}>
+              <SelectTrigger className="w-full" aria-label="Compare to revision">
+                <SelectValue placeholder="To" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((r, i) => (
+                  <SelectItem key={r.id} value={r.id}>
+                    {revisionLabel(r, i)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {from.title !== to.title || from.category !== to.category || from.tags.join() !== to.tags.join() ? (
+            <div className="space-y-1 text-xs">
+              {from.title !== to.title ? (
+                <div>
+                  {"Title: "}
+                  <del className="text-red-600">{from.title}</del> → <ins className="text-green-600">{to.title}</ins>
+                </div>
+              ) : null}
+              {from.category !== to.category ? (
+                <div>
+                  {"Category: "}
+                  <del className="text-red-600">{from.category || "none"}</del> →{" "}
+                  <ins className="text-green-600">{to.category || "none"}</ins>
+                </div>
+              ) : null}
+              {from.tags.join() !== to.tags.join() ? (
+                <div>
+                  {"Tags: "}
+                  <del className="text-red-600">{from.tags.join(", ") || "none"}</del> →{" "}
+                  <ins className="text-green-600">{to.tags.join(", ") || "none"}</ins>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          <div className="max-h-[40vh] overflow-auto rounded-md border font-mono text-xs leading-relaxed">
+            {diff.map((line, idx) => (
+              <div
+                key={idx}
+                className={cn(
+                  "flex gap-2 whitespace-pre-wrap px-2",
+                  line.type === "add" && "bg-green-500/10 text-green-700 dark:text-green-400",
+                  line.type === "remove" && "bg-red-500/10 text-red-700 dark:text-red-400",
+                )}
+              >
+                <span className="w-3 shrink-0 select-none text-muted-foreground">
+                  {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}
+                </span>
+                <span className="flex-1">{line.text || " "}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+export const SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ["Ctrl/⌘", "K"], label: "Open the command palette" },
+  { keys: ["/"], label: "Focus search" },
+  { keys: ["n"], label: "New prompt" },
+  { keys: ["←", "↑", "→", "↓"], label: "Move between prompts" },
+  { keys: ["Enter"], label: "View the focused prompt" },
+  { keys: ["c"], label: "Copy the focused prompt" },
+  { keys: ["e"], label: "Edit the focused prompt" },
+  { keys: ["f"], label: "Favorite or unfavorite the focused prompt" },
+  { keys: ["?"], label: "Show this help" },
+  { keys: ["Esc"], label: "Close dialogs and menus" },
+]
+
+export function Kbd({ children }: { children: React.ReactNode }) {
+  return (
+    <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs text-muted-foreground">{children}</kbd>
+  )
+}
+
+export function ShortcutHelp({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>Single-key shortcuts are ignored while typing in a field.</DialogDescription>
+        </DialogHeader>
+        <dl className="grid gap-2 text-sm">
+          {SHORTCUTS.map((s) => (
+            <div key={s.label} className="flex items-center justify-between gap-4">
+              <dt className="text-muted-foreground">{s.label}</dt>
+              <dd className="flex shrink-0 items-center gap-1">
+                {s.keys.map((k) => (
+                  <Kbd key={k}>{k}</Kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </DialogContent>
+    </Dialog>
+  )
+}
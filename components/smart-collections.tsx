@@ -0,0 +1,184 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { SmartCollection } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { ArrowDown, ArrowUp, BookmarkPlus, Edit, GripVertical, Layers, MoreHorizontal, Trash } from "lucide-react"
+
+export function SmartCollections({
+  collections,
+  counts,
+  activeId,
+  canSave,
+  onSelect,
+  onSave,
+  onRename,
+  onDelete,
+  onMove,
+}: {
+  collections: SmartCollection[]
+  counts: Record<string, number>
+  activeId: string | null
+  canSave: boolean
+  onSelect: (collection: SmartCollection) => void
+  onSave: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onMove: (from: number, to: number) => void
+}) {
+  // `editing` is null when saving a new collection.
+  const [dialog, setDialog] = useState<{ editing: SmartCollection | null } | null>(null)
+  const [name, setName] = useState("")
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  function openDialog(editing: SmartCollection | null) {
+    setName(editing?.name || "")
+    setDialog({ editing })
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault()
+    const trimmed = name.trim()
+    if (!trimmed || !dialog) return
+    if (dialog.editing) onRename(dialog.editing.id, trimmed)
+    else onSave(trimmed)
+    setDialog(null)
+  }
+
+  return (
+    <nav aria-label="Smart collections" className="rounded-lg border bg-card p-3">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <h2 className="flex items-center gap-2 text-sm font-medium">
+          <Layers className="h-4 w-4" />
+          Smart collections
+        </h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={!canSave}
+          onClick={() => openDialog(null)}
+          aria-label="Save current filters as a collection"
+          title={canSave ? "Save current filters as a collection" : "Set a search or filter first"}
+        >
+          <BookmarkPlus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {collections.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Save any search and filter combination to get back to it in one click.
+        </p>
+      ) : (
+        <ul className="grid gap-1">
+          {collections.map((c, i) => (
+            <li
+              key={c.id}
+              draggable
+              onDragStart={(e) => {
+                setDragIndex(i)
+                e.dataTransfer.effectAllowed = "move"
+              }}
+              onDragOver={(e) => {
+                if (dragIndex === null) return
+                e.preventDefault()
+                setDropIndex(i)
+              }}
+              onDrop={(e) => {
+                e.preventDefault()
+                if (dragIndex !== null && dragIndex !== i) onMove(dragIndex, i)
+                setDragIndex(null)
+                setDropIndex(null)
+              }}
+              onDragEnd={() => {
+                setDragIndex(null)
+                setDropIndex(null)
+              }}
+              className={cn(
+                "group flex items-center gap-1 rounded-md",
+                dropIndex === i && dragIndex !== i && "ring-2 ring-primary",
+                dragIndex === i && "opacity-50",
+              )}
+            >
+              <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground opacity-0 group-hover:opacity-100" />
+              <button
+                className={cn(
+                  "flex min-w-0 flex-1 items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm",
+                  activeId === c.id ? "bg-foreground text-background" : "hover:bg-muted",
+                )}
+                onClick={() => onSelect(c)}
+                aria-pressed={activeId === c.id}
+                title={c.filters.search || c.name}
+              >
+                <span className="truncate">{c.name}</span>
+                <span className="text-xs opacity-70">{counts[c.id] ?? 0}</span>
+              </button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" aria-label={`Actions for ${c.name}`}>
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => openDialog(c)}>
+                    <Edit className="mr-2 h-4 w-4" /> Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={i === 0} onClick={() => onMove(i, i - 1)}>
+                    <ArrowUp className="mr-2 h-4 w-4" /> Move up
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={i === collections.length - 1} onClick={() => onMove(i, i + 1)}>
+                    <ArrowDown className="mr-2 h-4 w-4" /> Move down
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => onDelete(c.id)} className="text-red-600">
+                    <Trash className="mr-2 h-4 w-4" /> Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form className="grid gap-4" onSubmit={submit}>
+            <DialogHeader>
+              <DialogTitle>{dialog?.editing ? "Rename collection" : "Save as smart collection"}</DialogTitle>
+            </DialogHeader>
+            <div className="grid gap-2">
+              <Label htmlFor="collection-name">Name</Label>
+              <Input
+                id="collection-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., SEO favorites"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="secondary" type="button" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                {dialog?.editing ? "Rename" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </nav>
+  )
+}
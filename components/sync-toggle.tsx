@@ -0,0 +1,74 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { SyncStatus } from "@/hooks/use-remote-sync"
+import { cn } from "@/lib/utils"
+import { Check, Cloud, CloudOff, HardDrive, RefreshCw } from "lucide-react"
+
+const STATUS_LABEL: Record<SyncStatus, string> = {
+  off: "Local only",
+  idle: "Synced",
+  syncing: "Syncing…",
+  offline: "Offline — changes queued",
+  error: "Sync failed",
+}
+
+export function SyncToggle({
+  mode,
+  onModeChange,
+  status,
+  error,
+  lastSyncedAt,
+  onSyncNow,
+}: {
+  mode: "local" | "remote"
+  onModeChange: (mode: "local" | "remote") => void
+  status: SyncStatus
+  error: string | null
+  lastSyncedAt: number
+  onSyncNow: () => void
+}) {
+  const Icon = mode === "local" ? HardDrive : status === "offline" || status === "error" ? CloudOff : Cloud
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="Storage mode" title={error || STATUS_LABEL[status]}>
+          <Icon className={cn("h-4 w-4", status === "error" && "text-red-600", status === "syncing" && "animate-pulse")} />
+          <span className="ml-2 hidden sm:inline">{mode === "local" ? "Local" : "Remote"}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          {error || STATUS_LABEL[status]}
+          {mode === "remote" && lastSyncedAt ? ` • ${new Date(lastSyncedAt).toLocaleTimeString()}` : null}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => onModeChange("local")}>
+          <HardDrive className="mr-2 h-4 w-4" /> This browser only
+          {mode === "local" ? <Check className="ml-auto h-4 w-4" /> : null}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onModeChange("remote")}>
+          <Cloud className="mr-2 h-4 w-4" /> Sync with server
+          {mode === "remote" ? <Check className="ml-auto h-4 w-4" /> : null}
+        </DropdownMenuItem>
+        {mode === "remote" ? (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onSyncNow} disabled={status === "syncing"}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Sync now
+            </DropdownMenuItem>
+          </>
+        ) : null}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import React, { useImperativeHandle, useMemo, useRef, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { normalizeTag } from "@/lib/utils"
+import { Tag, X } from "lucide-react"
+
+export type TagInputHandle = {
+  getPending: () => string
+  commit: () => void
+  clear: () => void
+}
+
+export const TagInput = React.forwardRef<
+  TagInputHandle,
+  {
+    value: string[]
+    onChange: (next: string[]) => void
+    suggestions?: string[]
+    placeholder?: string
+    "aria-label"?: string
+  }
+>(function TagInput(
+  { value, onChange, suggestions = [], placeholder = "Add tag and press Enter", "aria-label": ariaLabel },
+  ref,
+) {
+  const [input, setInput] = useState("")
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const normalizedValue = value.map(normalizeTag)
+
+  function addTag(raw: string) {
+    const t = normalizeTag(raw)
+    if (!t) return
+    if (normalizedValue.includes(t)) {
+      setInput("")
+      return
+    }
+    onChange([...normalizedValue, t])
+    setInput("")
+  }
+
+  function removeTag(t: string) {
+    onChange(normalizedValue.filter((x) => x !== t))
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault()
+      addTag(input)
+    } else if (e.key === "Backspace" && input === "" && normalizedValue.length > 0) {
+      e.preventDefault()
+      const last = normalizedValue[normalizedValue.length - 1]
+      removeTag(last)
+    }
+  }
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      getPending: () => input.trim(),
+      commit: () => {
+        if (input.trim()) addTag(input)
+      },
+      clear: () => setInput(""),
+    }),
+    [input, normalizedValue],
+  )
+
+  const filteredSuggestions = useMemo(() => {
+    const q = input.trim().toLowerCase()
+    return suggestions
+      .filter((s) => !normalizedValue.includes(s))
+      .filter((s) => (q ? s.toLowerCase().includes(q) : true))
+      .slice(0, 6)
+  }, [suggestions, normalizedValue, input])
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+        {normalizedValue.map((t) => (
+          <Badge key={t} variant="secondary" className="flex items-center gap-1">
+            <Tag className="h-3 w-3" />
+            <span>{t}</span>
+            <button aria-label={`Remove tag ${t}`} onClick={() => removeTag(t)}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          ref={inputRef}
+          aria-label={ariaLabel || "Tag input"}
+          className="flex-1 min-w-[120px] bg-transparent outline-none text-sm px-2 py-1"
+          placeholder={placeholder}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+      </div>
+      {filteredSuggestions.length > 0 ? (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {filteredSuggestions.map((s) => (
+            <button
+              key={s}
+              onClick={() => addTag(s)}
+              className="text-xs rounded-full border px-2 py-1 hover:bg-muted"
+              aria-label={`Add suggested tag ${s}`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  )
+})
@@ -0,0 +1,178 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { createModelPrice, DEFAULT_TOKEN_SETTINGS, normalizeTokenSettings, TOKENIZERS } from "@/lib/tokens"
+import type { ModelPrice, TokenizerId, TokenSettings } from "@/lib/types"
+import { Plus, RotateCcw, X } from "lucide-react"
+
+// Prices are edited as text so a half-typed "0." is not reformatted under the cursor.
+type Row = Omit<ModelPrice, "inputPerMillion"> & { price: string }
+
+function toRow({ inputPerMillion, ...rest }: ModelPrice): Row {
+  return { ...rest, price: String(inputPerMillion) }
+}
+
+function parsePrice(value: string) {
+  const n = Number(value.trim())
+  return value.trim() && Number.isFinite(n) && n >= 0 ? n : null
+}
+
+export function TokenSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  onSave,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: TokenSettings
+  onSave: (settings: TokenSettings) => void
+}) {
+  const [rows, setRows] = useState<Row[]>(() => settings.prices.map(toRow))
+  const [modelId, setModelId] = useState(settings.modelId)
+
+  useEffect(() => {
+    if (!open) return
+    setRows(settings.prices.map(toRow))
+    setModelId(settings.modelId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const invalid = rows.some((r) => !r.name.trim() || parsePrice(r.price) === null)
+
+  function update(id: string, patch: Partial<Row>) {
+    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  }
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+    if (invalid) return
+    const prices = rows.map(({ price, ...rest }) => ({
+      ...rest,
+      name: rest.name.trim(),
+      inputPerMillion: parsePrice(price)!,
+    }))
+    onSave(normalizeTokenSettings({ modelId, prices }))
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <form onSubmit={handleSave} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Token and cost estimates</DialogTitle>
+            <DialogDescription>
+              Counts come from tokenizers bundled with the app. Costs are input prices only, in dollars per million
+              tokens.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2">
+            <Label htmlFor="token-model">Shown on cards</Label>
+            <Select value={modelId} onValueChange={setModelId}>
+              <SelectTrigger id="token-model" className="w-full sm:w-64">
+                <SelectValue placeholder="Choose a model" />
+              </SelectTrigger>
+              <SelectContent>
+                {rows
+                  .filter((r) => r.name.trim())
+                  .map((r) => (
+                    <SelectItem key={r.id} value={r.id}>
+                      {r.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="hidden grid-cols-[1fr_150px_120px_36px] gap-2 text-xs text-muted-foreground sm:grid">
+              <span>Model</span>
+              <span>Tokenizer</span>
+              <span>$ / 1M input</span>
+            </div>
+            {rows.map((r) => (
+              <div key={r.id} className="grid grid-cols-[1fr_36px] gap-2 sm:grid-cols-[1fr_150px_120px_36px]">
+                <Input
+                  value={r.name}
+                  onChange={(e) => update(r.id, { name: e.target.value })}
+                  placeholder="Model name"
+                  aria-label="Model name"
+                  aria-invalid={!r.name.trim()}
+                />
+                <Select value={r.tokenizer} onValueChange={(v) => update(r.id, { tokenizer: v as TokenizerId })}>
+                  <SelectTrigger className="order-3 w-full sm:order-none" aria-label="Tokenizer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TOKENIZERS.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="order-4 sm:order-none"
+                  inputMode="decimal"
+                  value={r.price}
+                  onChange={(e) => update(r.id, { price: e.target.value })}
+                  aria-label={`Input price for ${r.name || "model"}`}
+                  aria-invalid={parsePrice(r.price) === null}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="order-2 sm:order-none"
+                  onClick={() => setRows((prev) => prev.filter((x) => x.id !== r.id))}
+                  aria-label={`Remove ${r.name || "model"}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setRows((prev) => [...prev, toRow(createModelPrice())])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add model
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setRows(DEFAULT_TOKEN_SETTINGS.prices.map(toRow))
+                  setModelId(DEFAULT_TOKEN_SETTINGS.modelId)
+                }}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reset to defaults
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={invalid}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { Prompt } from "@/lib/types"
+import { ArrowLeft, Folder, RotateCcw, Trash, Trash2 } from "lucide-react"
+
+export function TrashView({
+  prompts,
+  onRestore,
+  onDeleteForever,
+  onClose,
+}: {
+  prompts: Prompt[]
+  onRestore: (ids: string[]) => void
+  onDeleteForever: (ids: string[]) => void
+  onClose: () => void
+}) {
+  const sorted = [...prompts].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0))
+  const ids = sorted.map((p) => p.id)
+
+  return (
+    <section className="grid gap-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to library
+        </Button>
+        <span className="text-muted-foreground">
+          {sorted.length} prompt{sorted.length === 1 ? "" : "s"} in trash
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={sorted.length === 0} onClick={() => onRestore(ids)}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restore all
+          </Button>
+          <Button variant="destructive" size="sm" disabled={sorted.length === 0} onClick={() => onDeleteForever(ids)}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Empty trash
+          </Button>
+        </div>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          <Trash className="mx-auto mb-2 h-6 w-6" />
+          Trash is empty. Deleted prompts show up here until you delete them permanently.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {sorted.map((p) => (
+            <Card key={p.id} className="flex h-full flex-col opacity-90">
+              <CardHeader className="space-y-2">
+                <CardTitle className="text-base">{p.title}</CardTitle>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {p.category ? (
+                    <Badge variant="outline" className="flex items-center gap-1">
+                      <Folder className="h-3 w-3" />
+                      {p.category}
+                    </Badge>
+                  ) : null}
+                  {p.deletedAt ? <span>Deleted {new Date(p.deletedAt).toLocaleString()}</span> : null}
+                </div>
+              </CardHeader>
+              <CardContent className="flex flex-1 flex-col gap-3">
+                <div className="max-h-24 flex-1 overflow-hidden rounded-md border bg-muted/30 p-3 font-mono text-sm text-muted-foreground">
+                  {p.content}
+                </div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onRestore([p.id])}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onDeleteForever([p.id])}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete forever
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,297 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Prompt, UsageEvent } from "@/lib/types"
+import {
+  copiesByPrompt,
+  eventsSince,
+  lastUseUnknown,
+  stalePrompts,
+  USAGE_EVENT_LIMIT,
+  usageByDay,
+  usageByLabel,
+} from "@/lib/usage"
+import { now } from "@/lib/utils"
+import { ArrowLeft, BarChart3 } from "lucide-react"
+
+const RANGES = [7, 30, 90]
+const STALE_DAYS = [30, 60, 90, 180]
+const LIST_SIZE = 5
+const LOG_SIZE = 50
+
+function formatDay(day: number) {
+  return new Date(day).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+const tooltipStyle = {
+  background: "var(--popover)",
+  border: "1px solid var(--border)",
+  borderRadius: 6,
+  color: "var(--popover-foreground)",
+  fontSize: 12,
+}
+
+function LabelChart({ data, empty }: { data: { label: string; copies: number }[]; empty: string }) {
+  const top = data.slice(0, 8)
+  if (top.length === 0) return <p className="py-8 text-center text-sm text-muted-foreground">{empty}</p>
+  return (
+    <ResponsiveContainer width="100%" height={Math.max(120, top.length * 32)}>
+      <BarChart data={top} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <XAxis type="number" allowDecimals={false} fontSize={12} />
+        <YAxis type="category" dataKey="label" width={110} fontSize={12} />
+        <Tooltip contentStyle={tooltipStyle} cursor={{ fill: "var(--muted)" }} />
+        <Bar dataKey="copies" name="Copies" fill="var(--chart-2)" radius={[0, 4, 4, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+function PromptList({
+  prompts,
+  detail,
+  onOpen,
+  empty,
+}: {
+  prompts: Prompt[]
+  detail: (p: Prompt) => string
+  onOpen: (p: Prompt) => void
+  empty: string
+}) {
+  if (prompts.length === 0) return <p className="text-sm text-muted-foreground">{empty}</p>
+  return (
+    <ol className="grid max-h-80 gap-1 overflow-y-auto">
+      {prompts.map((p) => (
+        <li key={p.id} className="flex items-center gap-2 text-sm">
+          <button className="truncate text-left hover:underline" onClick={() => onOpen(p)}>
+            {p.title}
+          </button>
+          <span className="ml-auto shrink-0 text-xs text-muted-foreground">{detail(p)}</span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export function UsageAnalytics({
+  prompts,
+  events,
+  onOpenPrompt,
+  onClose,
+}: {
+  prompts: Prompt[]
+  events: UsageEvent[]
+  onOpenPrompt: (prompt: Prompt) => void
+  onClose: () => void
+}) {
+  const [range, setRange] = useState(30)
+  const [staleDays, setStaleDays] = useState(60)
+  // Fixed while the panel is open so the charts do not shift under the pointer.
+  const [at] = useState(now)
+
+  const inRange = useMemo(() => eventsSince(events, range, at), [events, range, at])
+  const byDay = useMemo(() => usageByDay(inRange, range, at), [inRange, range, at])
+  const byCategory = useMemo(() => usageByLabel(inRange, prompts, "category"), [inRange, prompts])
+  const byTag = useMemo(() => usageByLabel(inRange, prompts, "tag"), [inRange, prompts])
+  const recentCopies = useMemo(() => copiesByPrompt(inRange), [inRange])
+  const byUses = useMemo(
+    () => [...prompts].sort((a, b) => b.uses - a.uses || (b.lastUsedAt || 0) - (a.lastUsedAt || 0)),
+    [prompts],
+  )
+  const stale = useMemo(() => stalePrompts(prompts, staleDays, at), [prompts, staleDays, at])
+  const unknownCount = useMemo(() => prompts.filter(lastUseUnknown).length, [prompts])
+  const byId = useMemo(() => new Map(prompts.map((p) => [p.id, p])), [prompts])
+  const recentEvents = useMemo(() => events.slice(-LOG_SIZE).reverse(), [events])
+
+  const mostUsed = byUses.filter((p) => p.uses > 0).slice(0, LIST_SIZE)
+  const leastUsed = byUses.slice(-LIST_SIZE).reverse()
+  const totalUses = prompts.reduce((sum, p) => sum + p.uses, 0)
+  const usedInRange = prompts.filter((p) => recentCopies.has(p.id)).length
+  const usesText = (p: Prompt) => {
+    const recent = recentCopies.get(p.id) || 0
+    return `${p.uses} use${p.uses === 1 ? "" : "s"}${recent ? ` · ${recent} in ${range} days` : ""}`
+  }
+  const lastUsedText = (p: Prompt) =>
+    p.lastUsedAt ? `last used ${new Date(p.lastUsedAt).toLocaleDateString()}` : "never used"
+
+  return (
+    <section className="grid gap-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to library
+        </Button>
+        <span className="text-muted-foreground">Usage analytics</span>
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={String(range)} onValueChange={(v) => setRange(Number(v))}>
+            <SelectTrigger className="h-8 w-36" aria-label="Time range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  Last {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Copies in {range} days</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-semibold">{inRange.length}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Prompts used in {range} days</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-semibold">
+            {usedInRange} <span className="text-sm font-normal text-muted-foreground">of {prompts.length}</span>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Uses, all time</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-semibold">{totalUses}</CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Copies per day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {inRange.length === 0 ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              <BarChart3 className="mx-auto mb-2 h-6 w-6" />
+              No copies in this period. Every copy of a prompt is logged here.
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={byDay} margin={{ left: -16, right: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--border)" />
+                <XAxis dataKey="day" tickFormatter={formatDay} fontSize={12} minTickGap={16} />
+                <YAxis allowDecimals={false} fontSize={12} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  cursor={{ fill: "var(--muted)" }}
+                  labelFormatter={(day) => new Date(Number(day)).toLocaleDateString()}
+                />
+                <Bar dataKey="copies" name="Copies" fill="var(--chart-1)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Most used</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PromptList prompts={mostUsed} detail={usesText} onOpen={onOpenPrompt} empty="Nothing copied yet." />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Least used</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PromptList prompts={leastUsed} detail={usesText} onOpen={onOpenPrompt} empty="No prompts yet." />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">By category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LabelChart data={byCategory} empty="No copies in this period." />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">By tag</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LabelChart data={byTag} empty="No tagged prompts were copied in this period." />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center gap-2 space-y-0">
+          <CardTitle className="text-base">Stale prompts ({stale.length})</CardTitle>
+          <Select value={String(staleDays)} onValueChange={(v) => setStaleDays(Number(v))}>
+            <SelectTrigger className="ml-auto h-8 w-44" aria-label="Unused for">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STALE_DAYS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  Unused for {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <PromptList
+            prompts={stale}
+            detail={lastUsedText}
+            onOpen={onOpenPrompt}
+            empty={`Every prompt was copied or added in the last ${staleDays} days.`}
+          />
+          {unknownCount > 0 ? (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {unknownCount} prompt{unknownCount === 1 ? " was" : "s were"} last copied before copy dates were
+              recorded and {unknownCount === 1 ? "is" : "are"} left out until copied again.
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Copy log</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recentEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing copied yet.</p>
+          ) : (
+            <ol className="grid max-h-80 gap-1 overflow-y-auto text-sm">
+              {recentEvents.map((e, i) => {
+                const p = byId.get(e.promptId)
+                return (
+                  <li key={`${e.at}-${i}`} className="flex items-center gap-2">
+                    <span className="w-40 shrink-0 text-xs text-muted-foreground">
+                      {new Date(e.at).toLocaleString()}
+                    </span>
+                    {p ? (
+                      <button className="truncate text-left hover:underline" onClick={() => onOpenPrompt(p)}>
+                        {p.title}
+                      </button>
+                    ) : (
+                      <span className="text-muted-foreground">Deleted prompt</span>
+                    )}
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+          <p className="mt-2 text-xs text-muted-foreground">
+            The latest {USAGE_EVENT_LIMIT} copies are kept; older ones still count towards each prompt&apos;s uses.
+          </p>
+        </CardContent>
+      </Card>
+    </section>
+  )
+}
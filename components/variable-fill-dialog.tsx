@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { missingRequired, parseVariables, renderTemplate } from "@/lib/template"
+import type { Prompt } from "@/lib/types"
+import { Copy, RotateCcw } from "lucide-react"
+
+export function VariableFillDialog({
+  open,
+  setOpen,
+  prompt,
+  content: contentOverride,
+  initialValues,
+  onCopy,
+}: {
+  open: boolean
+  setOpen: (v: boolean) => void
+  prompt: Prompt | null
+  // Text to fill in when it differs from the stored content, e.g. with includes expanded.
+  content?: string
+  initialValues?: Record<string, string>
+  onCopy: (text: string, values: Record<string, string>) => void
+}) {
+  const content = contentOverride ?? prompt?.content ?? ""
+  const variables = useMemo(() => parseVariables(content), [content])
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (open) setValues(initialValues || {})
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, prompt?.id])
+
+  const missing = useMemo(() => missingRequired(variables, values), [variables, values])
+  const rendered = useMemo(() => renderTemplate(content, values), [content, values])
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (missing.length > 0) return
+    // Only remember variables that still exist in the prompt.
+    const kept: Record<string, string> = {}
+    for (const v of variables) {
+      if (values[v.name] !== undefined) kept[v.name] = values[v.name]
+    }
+    onCopy(rendered, kept)
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-3xl p-0">
+        <form onSubmit={handleSubmit} className="grid max-h-[85vh] grid-rows-[auto,1fr,auto]">
+          <DialogHeader className="px-6 pt-6">
+            <DialogTitle>Fill in variables</DialogTitle>
+            <DialogDescription>{prompt?.title}</DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-y-auto px-6 pb-4">
+            <div className="grid gap-4">
+              {variables.map((v) => {
+                const isMissing = missing.includes(v.name)
+                return (
+                  <div key={v.name} className="grid gap-2">
+                    <Label htmlFor={`var-${v.name}`}>
+                      <span className="font-mono">{v.name}</span>
+                      {v.required ? <span className="text-red-600">*</span> : null}
+                    </Label>
+                    <Input
+                      id={`var-${v.name}`}
+                      value={values[v.name] ?? ""}
+                      onChange={(e) => setValues((prev) => ({ ...prev, [v.name]: e.target.value }))}
+                      placeholder={v.defaultValue ? `Default: ${v.defaultValue}` : v.required ? "Required" : "Optional"}
+                      aria-invalid={isMissing && values[v.name] !== undefined}
+                    />
+                    {v.description ? <p className="text-xs text-muted-foreground">{v.description}</p> : null}
+                  </div>
+                )
+              })}
+
+              <div className="grid gap-2">
+                <Label>Preview</Label>
+                <div className="rounded-md border bg-muted/30 p-3 font-mono text-sm leading-relaxed max-h-[40vh] overflow-auto whitespace-pre-wrap">
+                  {rendered}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2 border-t px-6 py-4 sm:items-center">
+            {missing.length > 0 ? (
+              <p className="text-xs text-muted-foreground sm:mr-auto">
+                {"Missing: "}
+                {missing.join(", ")}
+              </p>
+            ) : null}
+            <Button variant="ghost" type="button" onClick={() => setValues({})}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset
+            </Button>
+            <Button variant="secondary" type="button" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={missing.length > 0}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
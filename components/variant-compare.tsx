@@ -0,0 +1,426 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { LlmSettingsFields, parseLlmDraft, toLlmDraft } from "@/components/llm-settings-fields"
+import { runSummary } from "@/components/prompt-playground"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { diffLines } from "@/lib/diff"
+import { executeRun } from "@/lib/llm"
+import { missingRequired, parseVariables, renderTemplate } from "@/lib/template"
+import type { LlmSettings, Prompt, PromptRun, PromptVariable } from "@/lib/types"
+import { cn, uid } from "@/lib/utils"
+import {
+  addVariant,
+  averageRating,
+  createVariant,
+  groupComparisons,
+  MAIN_VARIANT_ID,
+  nextVariantName,
+  removeVariant,
+  runVariantId,
+  updateVariant,
+  variantsOf,
+  type VariantView,
+} from "@/lib/variants"
+import { ArrowUpCircle, Copy, Edit, Play, Plus, Square, Star, Trash } from "lucide-react"
+
+function RatingStars({ value, onChange }: { value?: number; onChange: (rating: number | undefined) => void }) {
+  return (
+    <div className="flex" role="radiogroup" aria-label="Rating">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          role="radio"
+          aria-checked={value === n}
+          aria-label={`${n} star${n === 1 ? "" : "s"}`}
+          className="rounded p-0.5"
+          // Clicking the current rating clears it.
+          onClick={() => onChange(value === n ? undefined : n)}
+        >
+          <Star
+            className={cn("h-4 w-4", value && n <= value ? "fill-yellow-400 text-yellow-500" : "text-muted-foreground")}
+          />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function ContentDiff({ base, content }: { base: string; content: string }) {
+  return (
+    <div className="max-h-64 overflow-auto rounded-md border font-mono text-xs leading-relaxed">
+      {diffLines(base, content).map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            "whitespace-pre-wrap px-2",
+            line.type === "add" && "bg-green-500/10 text-green-700 dark:text-green-400",
+            line.type === "remove" && "bg-red-500/10 text-red-700 line-through dark:text-red-400",
+          )}
+        >
+          {line.text || " "}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function RunOutput({
+  run,
+  onRate,
+  onCopyText,
+}: {
+  run: PromptRun
+  onRate: (runId: string, rating: number | undefined) => void
+  onCopyText: (text: string) => void
+}) {
+  return (
+    <div className="grid gap-1 text-xs">
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md border p-2 text-sm">
+        {run.output || "No output"}
+      </pre>
+      {run.error ? <p className="text-red-600">{run.error}</p> : null}
+      <div className="flex flex-wrap items-center gap-2">
+        <RatingStars value={run.rating} onChange={(rating) => onRate(run.id, rating)} />
+        <span className="text-muted-foreground">{runSummary(run)}</span>
+        {run.status === "stopped" ? <span className="text-amber-600">stopped</span> : null}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-6 w-6"
+          onClick={() => onCopyText(run.output)}
+          disabled={!run.output}
+          aria-label="Copy output"
+          title="Copy output"
+        >
+          <Copy className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function VariantCompareDialog({
+  open,
+  onOpenChange,
+  prompt,
+  expand,
+  initialValues,
+  settings,
+  onSettingsChange,
+  onChange,
+  onRecordRuns,
+  onRate,
+  onPromote,
+  onCopyText,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  prompt: Prompt | null
+  // Content with includes expanded, as it will be sent.
+  expand: (content: string) => string
+  initialValues?: Record<string, string>
+  settings: LlmSettings
+  onSettingsChange: (settings: LlmSettings) => void
+  // Undoable edits to the variants; `label` names the change in the undo history. Destructive
+  // ones ask for an undo toast as well.
+  onChange: (label: string, update: (prompt: Prompt) => Prompt, options?: { undoToast?: boolean }) => void
+  onRecordRuns: (runs: PromptRun[]) => void
+  onRate: (runId: string, rating: number | undefined) => void
+  onPromote: (variantId: string) => void
+  onCopyText: (text: string) => void
+}) {
+  const [selected, setSelected] = useState<string[]>([])
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [draft, setDraft] = useState(() => toLlmDraft(settings))
+  const [live, setLive] = useState<Record<string, string>>({})
+  const [running, setRunning] = useState(false)
+  const [comparisonId, setComparisonId] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    if (!open || !prompt) return
+    setSelected(variantsOf(prompt).map((v) => v.id))
+    setEditing(null)
+    setValues(initialValues || {})
+    setDraft(toLlmDraft(settings))
+    setLive({})
+    setComparisonId(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, prompt?.id])
+
+  useEffect(() => {
+    if (!open) abortRef.current?.abort()
+  }, [open])
+
+  if (!prompt) return null
+
+  const all = variantsOf(prompt)
+  const columns = all.filter((v) => selected.includes(v.id))
+  const baseline = columns[0]
+  const expanded = new Map(columns.map((v) => [v.id, expand(v.content)]))
+  const variables: PromptVariable[] = []
+  for (const text of expanded.values()) {
+    for (const v of parseVariables(text)) if (!variables.some((x) => x.name === v.name)) variables.push(v)
+  }
+  const missing = missingRequired(variables, values)
+  const parsed = parseLlmDraft(draft)
+  const runs = prompt.runs || []
+  const current = comparisonId ? runs.filter((r) => r.comparisonId === comparisonId) : []
+  const earlier = groupComparisons(runs).filter((g) => g.id !== comparisonId)
+
+  function toggle(id: string, on: boolean) {
+    // Columns keep the order of the list, whatever order they were ticked in.
+    setSelected((prev) =>
+      on ? all.map((v) => v.id).filter((x) => x === id || prev.includes(x)) : prev.filter((x) => x !== id),
+    )
+  }
+
+  function handleAdd() {
+    const variant = createVariant(nextVariantName(prompt!), prompt!.content)
+    onChange("Add variant", (p) => addVariant(p, variant))
+    setSelected((prev) => [...prev, variant.id])
+    setEditing({ id: variant.id, content: variant.content })
+  }
+
+  async function handleRun(e: React.FormEvent) {
+    e.preventDefault()
+    if (running || !parsed || missing.length > 0 || columns.length < 2) return
+    onSettingsChange(parsed)
+    const id = uid()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRunning(true)
+    setLive({})
+    setComparisonId(id)
+    // Every variant gets the same filled-in values and parameters, and they run side by side.
+    const results = await Promise.all(
+      columns.map(async (v) => {
+        const run = await executeRun(parsed, renderTemplate(expanded.get(v.id)!, values), {
+          signal: controller.signal,
+          onOutput: (output) => setLive((prev) => ({ ...prev, [v.id]: output })),
+        })
+        return { ...run, comparisonId: id, variantId: v.id === MAIN_VARIANT_ID ? undefined : v.id }
+      }),
+    )
+    onRecordRuns(results)
+    if (abortRef.current === controller) abortRef.current = null
+    setRunning(false)
+  }
+
+  function nameOf(variantId: string) {
+    return all.find((v) => v.id === variantId)?.name || "Deleted variant"
+  }
+
+  function renderColumn(v: VariantView) {
+    const rating = averageRating(runs, v.id)
+    const run = current.find((r) => runVariantId(r) === v.id)
+    const isMain = v.id === MAIN_VARIANT_ID
+    return (
+      <div key={v.id} className="grid content-start gap-2 rounded-lg border bg-card p-3">
+        <div className="flex items-center gap-1">
+          {isMain ? (
+            <span className="px-1 text-sm font-medium">Main</span>
+          ) : (
+            <Input
+              key={`${v.id}-${v.name}`}
+              className="h-8 font-medium"
+              defaultValue={v.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim()
+                if (name && name !== v.name) onChange("Rename variant", (p) => updateVariant(p, v.id, { name }))
+                else e.target.value = v.name
+              }}
+              aria-label="Variant name"
+            />
+          )}
+          {rating ? (
+            <span
+              className="ml-auto flex shrink-0 items-center gap-0.5 text-xs text-muted-foreground"
+              title="Average rating"
+            >
+              <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-500" />
+              {rating.average.toFixed(1)} ({rating.count})
+            </span>
+          ) : null}
+        </div>
+        {!isMain ? (
+          <div className="flex flex-wrap gap-1">
+            <Button variant="outline" size="sm" className="h-7" onClick={() => onPromote(v.id)}>
+              <ArrowUpCircle className="mr-1 h-3.5 w-3.5" />
+              Promote to main
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7"
+              onClick={() => setEditing({ id: v.id, content: v.content })}
+              disabled={editing?.id === v.id}
+            >
+              <Edit className="mr-1 h-3.5 w-3.5" />
+              Edit
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => {
+                onChange("Delete variant", (p) => removeVariant(p, v.id), { undoToast: true })
+                setSelected((prev) => prev.filter((x) => x !== v.id))
+              }}
+              aria-label={`Delete ${v.name}`}
+            >
+              <Trash className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Edit the main text from the prompt&apos;s Edit dialog.</p>
+        )}
+        {editing?.id === v.id ? (
+          <div className="grid gap-2">
+            <Textarea
+              rows={8}
+              className="font-mono text-xs"
+              value={editing.content}
+              onChange={(e) => setEditing({ id: v.id, content: e.target.value })}
+              aria-label={`${v.name} content`}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => {
+                  onChange("Edit variant", (p) => updateVariant(p, v.id, { content: editing.content }))
+                  setEditing(null)
+                }}
+              >
+                Save
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : v === baseline ? (
+          <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/30 p-2 font-mono text-xs">
+            {v.content}
+          </pre>
+        ) : (
+          <ContentDiff base={baseline.content} content={v.content} />
+        )}
+        {running ? (
+          <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md border p-2 text-sm" aria-busy>
+            {live[v.id] || "…"}
+          </pre>
+        ) : run ? (
+          <RunOutput run={run} onRate={onRate} onCopyText={onCopyText} />
+        ) : null}
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Compare variants</DialogTitle>
+          <DialogDescription>
+            {prompt.title}. Differences are shown against the first selected version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {all.map((v) => (
+            <label key={v.id} className="flex items-center gap-2">
+              <Checkbox checked={selected.includes(v.id)} onCheckedChange={(on) => toggle(v.id, on === true)} />
+              {v.name}
+            </label>
+          ))}
+          <Button variant="outline" size="sm" onClick={handleAdd}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add variant
+          </Button>
+        </div>
+
+        {columns.length < 2 ? (
+          <p className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+            Select at least two versions to compare{all.length < 2 ? ", or add a variant to start" : ""}.
+          </p>
+        ) : (
+          <div className="grid gap-3 md:auto-cols-fr md:grid-flow-col">{columns.map(renderColumn)}</div>
+        )}
+
+        <form onSubmit={handleRun} className="grid gap-3 rounded-lg border p-3">
+          <h3 className="text-sm font-medium">Run every selected version with the same input</h3>
+          {variables.length > 0 ? (
+            <div className="grid gap-2 sm:grid-cols-2">
+              {variables.map((v) => (
+                <div key={v.name} className="grid gap-1">
+                  <Label htmlFor={`compare-var-${v.name}`} className="font-mono text-xs">
+                    {v.name}
+                    {v.required ? " *" : ""}
+                  </Label>
+                  <Input
+                    id={`compare-var-${v.name}`}
+                    value={values[v.name] ?? ""}
+                    onChange={(e) => setValues((prev) => ({ ...prev, [v.name]: e.target.value }))}
+                    placeholder={v.defaultValue ? `Default: ${v.defaultValue}` : v.required ? "Required" : "Optional"}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : null}
+          <LlmSettingsFields draft={draft} onChange={setDraft} idPrefix="compare" />
+          <div>
+            {running ? (
+              <Button type="button" variant="outline" onClick={() => abortRef.current?.abort()}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!parsed || missing.length > 0 || columns.length < 2}
+                title={missing.length > 0 ? `Fill in: ${missing.join(", ")}` : undefined}
+              >
+                <Play className="mr-2 h-4 w-4" />
+                Run {columns.length} versions
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {earlier.length > 0 ? (
+          <div className="grid gap-2">
+            <h3 className="text-sm font-medium">Earlier comparisons</h3>
+            {earlier.map((group) => (
+              <details key={group.id} className="rounded-md border p-2 text-sm">
+                <summary className="cursor-pointer text-xs">
+                  {new Date(group.createdAt).toLocaleString()}
+                  <span className="text-muted-foreground">
+                    {" · "}
+                    {group.runs.map((r) => nameOf(runVariantId(r))).join(" vs ")}
+                  </span>
+                </summary>
+                <div className="mt-2 grid gap-3 md:auto-cols-fr md:grid-flow-col">
+                  {group.runs.map((r) => (
+                    <div key={r.id} className="grid content-start gap-1">
+                      <span className="text-xs font-medium">{nameOf(runVariantId(r))}</span>
+                      <RunOutput run={r} onRate={onRate} onCopyText={onCopyText} />
+                    </div>
+                  ))}
+                </div>
+              </details>
+            ))}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Workspace } from "@/lib/types"
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces"
+import { ChevronsUpDown, Edit, Layers, Plus, Trash } from "lucide-react"
+
+type Mode = "create" | "rename" | "delete"
+
+export function WorkspaceSwitcher({
+  workspaces,
+  active,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  workspaces: Workspace[]
+  active: Workspace
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+}) {
+  const [mode, setMode] = useState<Mode | null>(null)
+  const [name, setName] = useState("")
+  const trimmed = name.trim()
+  const taken = workspaces.some(
+    (w) => w.name.toLowerCase() === trimmed.toLowerCase() && !(mode === "rename" && w.id === active.id),
+  )
+
+  function open(next: Mode) {
+    setName(next === "rename" ? active.name : "")
+    setMode(next)
+  }
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault()
+    if (mode === "delete") onDelete(active.id)
+    else if (!trimmed || taken) return
+    else if (mode === "create") onCreate(trimmed)
+    else if (mode === "rename") onRename(active.id, trimmed)
+    setMode(null)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" aria-label={`Workspace: ${active.name}`}>
+            <Layers className="mr-2 h-4 w-4" />
+            <span className="max-w-40 truncate">{active.name}</span>
+            <ChevronsUpDown className="ml-2 h-3.5 w-3.5 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Workspaces</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={active.id} onValueChange={onSwitch}>
+            {workspaces.map((w) => (
+              <DropdownMenuRadioItem key={w.id} value={w.id}>
+                <span className="truncate">{w.name}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => open("create")}>
+            <Plus className="mr-2 h-4 w-4" /> New workspace…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => open("rename")}>
+            <Edit className="mr-2 h-4 w-4" /> Rename “{active.name}”…
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => open("delete")}
+            disabled={active.id === DEFAULT_WORKSPACE_ID}
+            className="text-red-600"
+          >
+            <Trash className="mr-2 h-4 w-4" /> Delete “{active.name}”…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={mode !== null} onOpenChange={(v) => !v && setMode(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form className="grid gap-4" onSubmit={submit}>
+            <DialogHeader>
+              <DialogTitle>
+                {mode === "create" ? "New workspace" : mode === "rename" ? "Rename workspace" : `Delete “${active.name}”?`}
+              </DialogTitle>
+              <DialogDescription>
+                {mode === "create"
+                  ? "A separate library with its own prompts, categories and tags."
+                  : mode === "delete"
+                    ? "All prompts, categories and settings in this workspace are removed from this browser. Export it first to keep a copy."
+                    : null}
+              </DialogDescription>
+            </DialogHeader>
+            {mode !== "delete" ? (
+              <div className="grid gap-2">
+                <Label htmlFor="workspace-name">Name</Label>
+                <Input
+                  id="workspace-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Client A"
+                  autoFocus
+                />
+                {taken ? <p className="text-xs text-red-600">A workspace with this name already exists.</p> : null}
+              </div>
+            ) : null}
+            <DialogFooter>
+              <Button variant="secondary" type="button" onClick={() => setMode(null)}>
+                Cancel
+              </Button>
+              {mode === "delete" ? (
+                <Button type="submit" variant="destructive">
+                  Delete workspace
+                </Button>
+              ) : (
+                <Button type="submit" disabled={!trimmed || taken}>
+                  {mode === "create" ? "Create" : "Rename"}
+                </Button>
+              )}
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
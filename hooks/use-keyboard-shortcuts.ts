@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+// Returning false lets the key through, e.g. arrows when there is nothing to move between.
+export type ShortcutHandler = (e: KeyboardEvent) => boolean | void
+
+// Keys are `KeyboardEvent.key` values ("n", "/", "ArrowDown", "?"), plus "mod+k" for Ctrl/Cmd+K.
+export type ShortcutMap = Record<string, ShortcutHandler>
+
+function isEditable(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+function isActivatable(target: EventTarget | null) {
+  return target instanceof HTMLElement && !!target.closest("button, a, [role='button'], [role='checkbox']")
+}
+
+// Single-key shortcuts stay out of the way while a dialog or menu has the keyboard.
+function overlayOpen() {
+  return !!document.querySelector("[role='dialog'], [role='alertdialog'], [role='menu'], [role='listbox']")
+}
+
+export function useKeyboardShortcuts(shortcuts: ShortcutMap) {
+  const ref = useRef(shortcuts)
+  ref.current = shortcuts
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.defaultPrevented || e.isComposing) return
+      if ((e.metaKey || e.ctrlKey) && !e.altKey && e.key.toLowerCase() === "k") {
+        const handler = ref.current["mod+k"]
+        if (handler && handler(e) !== false) e.preventDefault()
+        return
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey) return
+      if (isEditable(e.target) || overlayOpen()) return
+      if ((e.key === "Enter" || e.key === " ") && isActivatable(e.target)) return
+      const handler = ref.current[e.key]
+      if (handler && handler(e) !== false) e.preventDefault()
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import * as React from "react"
+import { fetchChanges, pushPrompt, RemoteError, removePrompt, type SyncState } from "@/lib/remote"
+import { writeMeta } from "@/lib/storage"
+import { mergeNotes } from "@/lib/sync"
+import type { Prompt } from "@/lib/types"
+
+export type SyncStatus = "off" | "idle" | "syncing" | "offline" | "error"
+
+const DEBOUNCE_MS = 800
+const POLL_MS = 30_000
+
+function signature(p: Prompt) {
+  return `${p.updatedAt}:${p.uses}:${p.favorite}:${p.notesUpdatedAt || 0}`
+}
+
+export function useRemoteSync({
+  workspace,
+  enabled,
+  ready,
+  initialState,
+  prompts,
+  setPrompts,
+}: {
+  workspace: string
+  enabled: boolean
+  ready: boolean
+  initialState: SyncState | undefined
+  prompts: Prompt[]
+  setPrompts: React.Dispatch<React.SetStateAction<Prompt[]>>
+}) {
+  const [status, setStatus] = React.useState<SyncStatus>("off")
+  const [error, setError] = React.useState<string | null>(null)
+  const [lastSyncedAt, setLastSyncedAt] = React.useState(0)
+  const promptsRef = React.useRef(prompts)
+  promptsRef.current = prompts
+  const stateRef = React.useRef<SyncState | null>(null)
+  const runningRef = React.useRef(false)
+  const rerunRef = React.useRef(false)
+
+  const sync = React.useCallback(async () => {
+    if (!stateRef.current) return
+    if (runningRef.current) {
+      rerunRef.current = true
+      return
+    }
+    runningRef.current = true
+    setStatus("syncing")
+    const state = stateRef.current
+    try {
+      // Push local creates, edits and deletes.
+      const local = promptsRef.current
+      const taken: Prompt[] = []
+      // Server copies the local ones win over; their runs and reports are still merged in.
+      const notes: Prompt[] = []
+      // Takes the server copy over the local one, keeping the local notes. When that adds any, the
+      // server doesn't hold the result yet, so it is marked unknown and pushed on the next sync.
+      const take = (remote: Prompt, mine: Prompt | undefined) => {
+        const merged = mine ? mergeNotes(remote, mine) : remote
+        taken.push(merged)
+        state.known[remote.id] = merged === remote ? signature(remote) : ""
+      }
+      for (const p of local) {
+        if (state.known[p.id] === signature(p)) continue
+        const { conflict } = await pushPrompt(p)
+        if (conflict) take(conflict, p)
+        else state.known[p.id] = signature(p)
+      }
+      const localIds = new Set(local.map((p) => p.id))
+      for (const id of Object.keys(state.known)) {
+        if (localIds.has(id)) continue
+        await removePrompt(id)
+        delete state.known[id]
+      }
+
+      // Pull whatever changed on the server since the last sync.
+      const changes = await fetchChanges(state.lastSyncedAt)
+      const byId = new Map(promptsRef.current.map((p) => [p.id, p]))
+      for (const remote of changes.prompts) {
+        const mine = byId.get(remote.id)
+        const known = state.known[remote.id]
+        if (!mine && known !== undefined) continue // deleted here, delete already pushed
+        if (mine && signature(mine) === signature(remote)) {
+          state.known[remote.id] = signature(remote)
+          notes.push(remote)
+          continue
+        }
+        const locallyModified = mine && signature(mine) !== known
+        if (mine && locallyModified && remote.updatedAt <= mine.updatedAt) {
+          notes.push(remote)
+          continue
+        }
+        take(remote, mine)
+      }
+      const removed = changes.deleted.filter((id) => {
+        const mine = byId.get(id)
+        const known = state.known[id]
+        delete state.known[id]
+        return mine && known !== undefined && signature(mine) === known
+      })
+
+      if (taken.length > 0 || removed.length > 0 || notes.length > 0) {
+        const updates = new Map(taken.map((p) => [p.id, p]))
+        const others = new Map(notes.map((p) => [p.id, p]))
+        setPrompts((prev) => {
+          let changed = removed.length > 0
+          const next = prev
+            .filter((p) => !removed.includes(p.id))
+            .map((p) => {
+              const update = updates.get(p.id)
+              const other = others.get(p.id)
+              // Again, for notes recorded while the sync was under way.
+              const merged = update ? mergeNotes(update, p) : other ? mergeNotes(p, other) : p
+              if (merged !== p) changed = true
+              return merged
+            })
+          const existing = new Set(prev.map((p) => p.id))
+          const added = taken.filter((p) => !existing.has(p.id))
+          return changed || added.length > 0 ? [...added, ...next] : prev
+        })
+      }
+
+      state.lastSyncedAt = changes.serverTime
+      setLastSyncedAt(changes.serverTime)
+      await writeMeta(workspace, "sync", state)
+      setError(null)
+      setStatus("idle")
+    } catch (err) {
+      const offline = (typeof navigator !== "undefined" && !navigator.onLine) || err instanceof TypeError
+      setError(offline ? null : err instanceof RemoteError || err instanceof Error ? err.message : String(err))
+      setStatus(offline ? "offline" : "error")
+    } finally {
+      runningRef.current = false
+      if (rerunRef.current) {
+        rerunRef.current = false
+        sync()
+      }
+    }
+  }, [workspace, setPrompts])
+
+  React.useEffect(() => {
+    if (!ready || stateRef.current) return
+    stateRef.current = { lastSyncedAt: 0, ...initialState, known: { ...initialState?.known } }
+    setLastSyncedAt(stateRef.current.lastSyncedAt)
+  }, [ready, initialState])
+
+  // Debounced push/pull after local changes.
+  React.useEffect(() => {
+    if (!enabled || !ready) {
+      setStatus("off")
+      return
+    }
+    const timer = setTimeout(sync, DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [enabled, ready, prompts, sync])
+
+  // Periodic pull, plus an immediate retry once the browser comes back online.
+  React.useEffect(() => {
+    if (!enabled || !ready) return
+    const interval = setInterval(sync, POLL_MS)
+    window.addEventListener("online", sync)
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener("online", sync)
+    }
+  }, [enabled, ready, sync])
+
+  return { status, error, lastSyncedAt, syncNow: sync }
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { loadTokenizer, type TokenCounter } from "@/lib/tokens"
+import type { TokenizerId } from "@/lib/types"
+
+// The counter for `tokenizer` once its encoding has loaded, null until then (or when no tokenizer is asked for).
+export function useTokenCounter(tokenizer: TokenizerId | null) {
+  const [loaded, setLoaded] = useState<{ id: TokenizerId; count: TokenCounter } | null>(null)
+
+  useEffect(() => {
+    if (!tokenizer) return
+    let cancelled = false
+    loadTokenizer(tokenizer)
+      .then((count) => {
+        if (!cancelled) setLoaded({ id: tokenizer, count })
+      })
+      // Counts just stay hidden if the encoding cannot be fetched, e.g. offline before it was cached.
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [tokenizer])
+
+  return loaded && loaded.id === tokenizer ? loaded.count : null
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { usePathname, useSearchParams } from "next/navigation"
+import { ALL_CATEGORIES, upgradeCategoryFilter } from "@/lib/categories"
+import type { SavedFilters, SortOrder } from "@/lib/types"
+
+const SORTS: SortOrder[] = ["relevance", "updated", "created", "title", "longest", "shortest", "most-used", "recent"]
+const PROMPT_PATH = "/prompts/"
+
+// Links shared before the current filter values still say `cat=all` or `cat=uncategorized`.
+export function filtersFromParams(params: URLSearchParams): SavedFilters {
+  const sort = params.get("sort") as SortOrder | null
+  return upgradeCategoryFilter({
+    search: params.get("q") || "",
+    category: params.get("cat") || ALL_CATEGORIES,
+    selectedTags: params.getAll("tag"),
+    tagMatch: params.get("match") === "all" ? "all" : "any",
+    sort: sort && SORTS.includes(sort) ? sort : "relevance",
+  })
+}
+
+// Only non-default values are written, so an unfiltered library lives at a bare `/`.
+export function filtersToParams(filters: SavedFilters) {
+  const params = new URLSearchParams()
+  if (filters.search.trim()) params.set("q", filters.search)
+  if (filters.category !== ALL_CATEGORIES) params.set("cat", filters.category)
+  for (const t of filters.selectedTags) params.append("tag", t)
+  if (filters.tagMatch === "all") params.set("match", "all")
+  if (filters.sort !== "relevance") params.set("sort", filters.sort)
+  return params
+}
+
+function promptIdFromPath(pathname: string) {
+  return pathname.startsWith(PROMPT_PATH) ? decodeURIComponent(pathname.slice(PROMPT_PATH.length)) || null : null
+}
+
+// A prompt opened through /prompts/[id] keeps that path; any other open prompt is `?view=`.
+function buildUrl(filters: SavedFilters, viewId: string | null, routeId: string | null) {
+  const params = filtersToParams(filters)
+  let path = "/"
+  if (viewId && viewId === routeId) path = `${PROMPT_PATH}${encodeURIComponent(viewId)}`
+  else if (viewId) params.set("view", viewId)
+  const query = params.toString()
+  return query ? `${path}?${query}` : path
+}
+
+function sameFilters(a: SavedFilters, b: SavedFilters) {
+  return filtersToParams(a).toString() === filtersToParams(b).toString()
+}
+
+// Keeps the filters and the open prompt in the address bar. Writes go through the
+// native History API, which Next.js keeps in sync with useSearchParams/usePathname
+// without re-rendering the route, and back/forward navigation is read back into state.
+export function useUrlState({
+  filters,
+  viewId,
+  onFilters,
+  onView,
+}: {
+  filters: SavedFilters
+  viewId: string | null
+  onFilters: (filters: SavedFilters) => void
+  onView: (id: string | null) => void
+}) {
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const routeId = promptIdFromPath(pathname)
+  // Set when the URL was just read into state, so the write below does not undo it
+  // before the new state has rendered.
+  const skipWriteRef = useRef(false)
+  const writtenRef = useRef<{ filters: SavedFilters; viewId: string | null } | null>(null)
+
+  useEffect(() => {
+    const urlFilters = filtersFromParams(searchParams)
+    const urlViewId = searchParams.get("view") || routeId
+    writtenRef.current = { filters: urlFilters, viewId: urlViewId }
+    if (sameFilters(urlFilters, filters) && urlViewId === viewId) return
+    skipWriteRef.current = true
+    if (!sameFilters(urlFilters, filters)) onFilters(urlFilters)
+    if (urlViewId !== viewId) onView(urlViewId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pathname, searchParams])
+
+  useEffect(() => {
+    if (skipWriteRef.current) {
+      skipWriteRef.current = false
+      return
+    }
+    const written = writtenRef.current
+    if (!written) return
+    const url = buildUrl(filters, viewId, routeId)
+    if (url === `${window.location.pathname}${window.location.search}`) return
+    // Typing in the search box replaces the entry; everything else gets its own history step.
+    const onlySearchChanged =
+      written.viewId === viewId && sameFilters({ ...written.filters, search: filters.search }, filters)
+    writtenRef.current = { filters, viewId }
+    if (onlySearchChanged) window.history.replaceState(null, "", url)
+    else window.history.pushState(null, "", url)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters, viewId])
+}
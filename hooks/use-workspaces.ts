@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { deleteWorkspaceData, loadWorkspaces, writeWorkspaces } from "@/lib/storage"
+import { broadcast, subscribe } from "@/lib/storage/channel"
+import type { Workspace } from "@/lib/types"
+import { createWorkspace, DEFAULT_WORKSPACE, DEFAULT_WORKSPACE_ID, normalizeWorkspaces } from "@/lib/workspaces"
+
+// Remembers the last opened workspace per browser; each tab can still switch on its own.
+const ACTIVE_KEY = "pm_active_workspace"
+
+function readActive() {
+  try {
+    return localStorage.getItem(ACTIVE_KEY)
+  } catch {
+    return null
+  }
+}
+
+function rememberActive(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id)
+  } catch {
+    // Falls back to the default workspace on the next load.
+  }
+}
+
+export type WorkspacesState = ReturnType<typeof useWorkspaces>
+
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([DEFAULT_WORKSPACE])
+  const [activeId, setActiveId] = useState(DEFAULT_WORKSPACE_ID)
+  const [ready, setReady] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadWorkspaces()
+      .then((stored) => {
+        if (cancelled) return
+        const list = normalizeWorkspaces(stored)
+        const last = readActive()
+        setWorkspaces(list)
+        if (last && list.some((w) => w.id === last)) setActiveId(last)
+      })
+      // The library load reports storage errors; here we just stay on the default workspace.
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setReady(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    return subscribe((msg) => {
+      if (msg.type !== "workspaces") return
+      const list = normalizeWorkspaces(msg.workspaces)
+      setWorkspaces(list)
+      setActiveId((id) => (list.some((w) => w.id === id) ? id : DEFAULT_WORKSPACE_ID))
+    })
+  }, [])
+
+  async function save(list: Workspace[]) {
+    setWorkspaces(list)
+    await writeWorkspaces(list)
+    broadcast({ type: "workspaces", workspaces: list })
+  }
+
+  function switchTo(id: string) {
+    if (id === activeId) return
+    // Filters and open prompts in the URL belong to the library being left.
+    window.history.pushState(null, "", "/")
+    rememberActive(id)
+    setActiveId(id)
+  }
+
+  async function create(name: string) {
+    const workspace = createWorkspace(name)
+    await save([...workspaces, workspace])
+    return workspace
+  }
+
+  async function rename(id: string, name: string) {
+    await save(workspaces.map((w) => (w.id === id ? { ...w, name: name.trim() } : w)))
+  }
+
+  async function remove(id: string) {
+    if (id === DEFAULT_WORKSPACE_ID) return
+    if (id === activeId) switchTo(DEFAULT_WORKSPACE_ID)
+    await save(workspaces.filter((w) => w.id !== id))
+    await deleteWorkspaceData(id)
+  }
+
+  return {
+    workspaces,
+    active: workspaces.find((w) => w.id === activeId) || DEFAULT_WORKSPACE,
+    ready,
+    switchTo,
+    create,
+    rename,
+    remove,
+  }
+}
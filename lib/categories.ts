@@ -0,0 +1,89 @@
+import type { Prompt } from "@/lib/types"
+
+// Categories are paths like "Coding/TypeScript/Refactoring"; every prefix is a folder.
+
+export const CATEGORY_SEPARATOR = "/"
+
+// Filter values for every prompt and for prompts without a category. Category paths never start
+// with the separator, so no category can be taken for either of them.
+export const ALL_CATEGORIES = "/all"
+export const UNCATEGORIZED = "/uncategorized"
+
+// Filters saved before the values above used the bare words. No category could be picked under
+// those names back then, so they always meant these two.
+export function upgradeCategoryFilter<T extends { category: string }>(filters: T): T {
+  if (filters.category === "all") return { ...filters, category: ALL_CATEGORIES }
+  if (filters.category === "uncategorized") return { ...filters, category: UNCATEGORIZED }
+  return filters
+}
+
+export type CategoryNode = {
+  path: string
+  name: string
+  depth: number
+  // Prompts filed directly in this folder, and including all subfolders.
+  count: number
+  total: number
+  children: CategoryNode[]
+}
+
+export function categorySegments(path: string) {
+  return path.split(CATEGORY_SEPARATOR)
+}
+
+export function categoryName(path: string) {
+  const segments = categorySegments(path)
+  return segments[segments.length - 1]
+}
+
+// "Coding/TypeScript" -> ["Coding", "Coding/TypeScript"]
+export function categoryAncestors(path: string) {
+  const segments = categorySegments(path)
+  return segments.map((_, i) => segments.slice(0, i + 1).join(CATEGORY_SEPARATOR))
+}
+
+export function isInCategory(category: string | null, path: string) {
+  return !!category && (category === path || category.startsWith(`${path}${CATEGORY_SEPARATOR}`))
+}
+
+export function buildCategoryTree(categories: string[], prompts: Prompt[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>()
+  const roots: CategoryNode[] = []
+
+  function ensure(path: string) {
+    const existing = nodes.get(path)
+    if (existing) return existing
+    const segments = categorySegments(path)
+    const node: CategoryNode = {
+      path,
+      name: segments[segments.length - 1],
+      depth: segments.length - 1,
+      count: 0,
+      total: 0,
+      children: [],
+    }
+    nodes.set(path, node)
+    if (segments.length === 1) roots.push(node)
+    else ensure(segments.slice(0, -1).join(CATEGORY_SEPARATOR)).children.push(node)
+    return node
+  }
+
+  for (const c of categories) if (c) ensure(c)
+  for (const p of prompts) {
+    if (!p.category) continue
+    ensure(p.category).count++
+    for (const a of categoryAncestors(p.category)) ensure(a).total++
+  }
+
+  function sort(list: CategoryNode[]) {
+    list.sort((a, b) => a.name.localeCompare(b.name))
+    list.forEach((n) => sort(n.children))
+  }
+  sort(roots)
+  return roots
+}
+
+// Depth-first list of every folder path, parents before children.
+export function flattenCategoryTree(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap((n) => [n, ...flattenCategoryTree(n.children)])
+}
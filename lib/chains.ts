@@ -0,0 +1,57 @@
+import type { Chain, ChainRun, ChainStep, PromptVariable } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+// Transcripts kept per library, newest first.
+export const CHAIN_RUN_LIMIT = 50
+
+// Variables that usually take the previous step's answer, wired up when a step is added.
+const FEED_NAMES = ["input", "text", "previous", "output", "draft", "content"]
+
+export function createChain(name: string): Chain {
+  const at = now()
+  return { id: uid(), name: name.trim(), steps: [], createdAt: at, updatedAt: at }
+}
+
+export function createStep(promptId: string, variables: PromptVariable[], previous?: ChainStep): ChainStep {
+  const inputs: Record<string, string> = {}
+  const feed = previous && variables.find((v) => FEED_NAMES.includes(v.name.toLowerCase()))
+  if (feed) inputs[feed.name] = previous.id
+  return { id: uid(), promptId, inputs }
+}
+
+// Drops mappings to steps that no longer come earlier, e.g. after a reorder or removal.
+export function pruneInputs(steps: ChainStep[]): ChainStep[] {
+  return steps.map((step, i) => {
+    const earlier = new Set(steps.slice(0, i).map((s) => s.id))
+    const inputs = Object.fromEntries(Object.entries(step.inputs).filter(([, from]) => earlier.has(from)))
+    return Object.keys(inputs).length === Object.keys(step.inputs).length ? step : { ...step, inputs }
+  })
+}
+
+export function moveStep(steps: ChainStep[], index: number, delta: number) {
+  const target = index + delta
+  if (target < 0 || target >= steps.length) return steps
+  const next = [...steps]
+  const [moved] = next.splice(index, 1)
+  next.splice(target, 0, moved)
+  return pruneInputs(next)
+}
+
+// Values typed in by hand, overridden by outputs of the steps the variables are mapped to.
+export function stepValues(step: ChainStep, manual: Record<string, string>, outputs: Record<string, string>) {
+  const values = { ...manual }
+  for (const [name, from] of Object.entries(step.inputs)) values[name] = outputs[from] ?? ""
+  return values
+}
+
+export function addRun(runs: ChainRun[], run: ChainRun) {
+  return [run, ...runs.filter((r) => r.id !== run.id)].slice(0, CHAIN_RUN_LIMIT)
+}
+
+export function transcriptToMarkdown(chainName: string, run: ChainRun) {
+  const lines = [`# ${chainName}`, "", `Run started ${new Date(run.startedAt).toLocaleString()}`]
+  run.steps.forEach((s, i) => {
+    lines.push("", `## Step ${i + 1}: ${s.title}`, "", "### Prompt", "", s.input, "", "### Output", "", s.output || "_(none)_")
+  })
+  return lines.join("\n") + "\n"
+}
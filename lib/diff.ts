@@ -0,0 +1,48 @@
+export type DiffLine = {
+  type: "same" | "add" | "remove"
+  text: string
+  oldLine?: number
+  newLine?: number
+}
+
+// Line-level diff based on the longest common subsequence of lines.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n")
+  const b = after.split("\n")
+  const n = a.length
+  const m = b.length
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const out: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      out.push({ type: "same", text: a[i], oldLine: i + 1, newLine: j + 1 })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: "remove", text: a[i], oldLine: i + 1 })
+      i++
+    } else {
+      out.push({ type: "add", text: b[j], newLine: j + 1 })
+      j++
+    }
+  }
+  while (i < n) {
+    out.push({ type: "remove", text: a[i], oldLine: i + 1 })
+    i++
+  }
+  while (j < m) {
+    out.push({ type: "add", text: b[j], newLine: j + 1 })
+    j++
+  }
+  return out
+}
@@ -0,0 +1,213 @@
+import { validateJson } from "@/lib/json-schema"
+import { executeRun, type LlmProvider } from "@/lib/llm"
+import { revisionsOf } from "@/lib/revisions"
+import { missingRequired, parseVariables, renderTemplate } from "@/lib/template"
+import type {
+  LlmSettings,
+  Prompt,
+  PromptTestCase,
+  TestAssertion,
+  TestAssertionType,
+  TestCaseResult,
+  TestReport,
+} from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+// Reports kept per prompt, newest first.
+export const TEST_REPORT_LIMIT = 20
+
+export const ASSERTION_TYPES: { type: TestAssertionType; label: string }[] = [
+  { type: "contains", label: "Contains" },
+  { type: "regex", label: "Matches regex" },
+  { type: "json-schema", label: "Valid JSON schema" },
+  { type: "max-length", label: "Max length" },
+]
+
+export function createAssertion(type: TestAssertionType): TestAssertion {
+  const id = uid()
+  if (type === "regex") return { id, type, pattern: "", flags: "" }
+  if (type === "json-schema") return { id, type, schema: '{\n  "type": "object"\n}' }
+  if (type === "max-length") return { id, type, max: 500 }
+  return { id, type, value: "" }
+}
+
+export function createTestCase(name: string, values: Record<string, string> = {}): PromptTestCase {
+  return { id: uid(), name, values, assertions: [createAssertion("contains")] }
+}
+
+export function nextTestCaseName(cases: PromptTestCase[]) {
+  const taken = new Set(cases.map((c) => c.name.toLowerCase()))
+  for (let i = cases.length + 1; ; i++) if (!taken.has(`case ${i}`)) return `Case ${i}`
+}
+
+export function setTestCases(prompt: Prompt, testCases: PromptTestCase[]): Prompt {
+  return { ...prompt, testCases, updatedAt: now() }
+}
+
+export function describeAssertion(a: TestAssertion) {
+  if (a.type === "contains") return `contains “${a.value}”`
+  if (a.type === "regex") return `matches /${a.pattern}/${a.flags}`
+  if (a.type === "json-schema") return "is JSON matching the schema"
+  return `is at most ${a.max} characters`
+}
+
+// What is wrong with the assertion itself, before any output is checked.
+export function assertionProblem(a: TestAssertion): string | null {
+  if (a.type === "contains") return a.value ? null : "Enter the text to look for"
+  if (a.type === "max-length") return Number.isInteger(a.max) && a.max >= 0 ? null : "Enter a whole number"
+  if (a.type === "regex") {
+    if (!a.pattern) return "Enter a pattern"
+    try {
+      new RegExp(a.pattern, a.flags)
+      return null
+    } catch (err) {
+      return err instanceof Error ? err.message : "Invalid regular expression"
+    }
+  }
+  try {
+    const schema = JSON.parse(a.schema)
+    return typeof schema === "boolean" || (schema && typeof schema === "object" && !Array.isArray(schema))
+      ? null
+      : "A schema is an object or true/false"
+  } catch {
+    return "The schema is not valid JSON"
+  }
+}
+
+// Models like to wrap JSON in a ``` fence; the fence is not part of the answer.
+function stripFence(text: string) {
+  const m = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/)
+  return m ? m[1] : text
+}
+
+// Why `output` fails the assertion, or null when it passes.
+export function checkAssertion(a: TestAssertion, output: string): string | null {
+  const problem = assertionProblem(a)
+  if (problem) return `${describeAssertion(a)}: ${problem}`
+  if (a.type === "contains") return output.includes(a.value) ? null : `Does not contain “${a.value}”`
+  if (a.type === "regex") {
+    return new RegExp(a.pattern, a.flags).test(output) ? null : `Does not match /${a.pattern}/${a.flags}`
+  }
+  if (a.type === "max-length") {
+    return output.length <= a.max ? null : `${output.length} characters, more than the ${a.max} allowed`
+  }
+  let value: unknown
+  try {
+    value = JSON.parse(stripFence(output))
+  } catch {
+    return "The answer is not valid JSON"
+  }
+  const errors = validateJson(value, JSON.parse(a.schema))
+  if (errors.length === 0) return null
+  return `Schema mismatch: ${errors.slice(0, 3).join("; ")}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ""}`
+}
+
+// A stand-in model that answers instantly with fixed text, so suites can run offline and
+// give the same result every time.
+export function mockProvider(answer: string): LlmProvider {
+  return {
+    async complete(_request, { signal, onDelta }) {
+      if (signal?.aborted) throw new DOMException("Aborted", "AbortError")
+      onDelta(answer)
+      return answer
+    },
+  }
+}
+
+// The revision a report run now would be filed under.
+export function currentRevisionId(prompt: Prompt) {
+  return revisionsOf(prompt).at(-1)!.id
+}
+
+// Runs the cases one after another against `content` (the prompt with includes expanded).
+// Resolves with null when stopped, so a partial suite is never recorded.
+export async function runTestSuite(
+  prompt: Prompt,
+  content: string,
+  {
+    target,
+    settings,
+    signal,
+    onResult,
+  }: {
+    target: TestReport["target"]
+    settings: LlmSettings
+    signal?: AbortSignal
+    onResult?: (result: TestCaseResult) => void
+  },
+): Promise<TestReport | null> {
+  const variables = parseVariables(content)
+  const results: TestCaseResult[] = []
+  for (const testCase of prompt.testCases || []) {
+    const input = renderTemplate(content, testCase.values)
+    const missing = missingRequired(variables, testCase.values)
+    let result: TestCaseResult
+    if (missing.length > 0) {
+      const failures = [`Missing values: ${missing.join(", ")}`]
+      result = { caseId: testCase.id, name: testCase.name, input, output: "", failures, passed: false, latencyMs: 0 }
+    } else {
+      const provider = target === "mock" ? mockProvider(testCase.mockOutput ?? input) : undefined
+      const run = await executeRun(settings, input, { signal }, provider)
+      if (run.status === "stopped") return null
+      const failures =
+        run.status === "error"
+          ? [run.error || "Request failed"]
+          : testCase.assertions.map((a) => checkAssertion(a, run.output)).filter((f): f is string => f !== null)
+      result = {
+        caseId: testCase.id,
+        name: testCase.name,
+        input,
+        output: run.output,
+        failures,
+        passed: failures.length === 0,
+        latencyMs: run.latencyMs,
+      }
+    }
+    results.push(result)
+    onResult?.(result)
+  }
+  if (signal?.aborted) return null
+  const { baseUrl, model, temperature, maxTokens } = settings
+  return {
+    id: uid(),
+    createdAt: now(),
+    revisionId: currentRevisionId(prompt),
+    target,
+    params: target === "model" ? { baseUrl, model, temperature, maxTokens } : undefined,
+    results,
+  }
+}
+
+// Like runs, reports are notes about the prompt: they leave updatedAt alone and bump notesUpdatedAt.
+export function addTestReport(prompt: Prompt, report: TestReport): Prompt {
+  return {
+    ...prompt,
+    testReports: [report, ...(prompt.testReports || [])].slice(0, TEST_REPORT_LIMIT),
+    notesUpdatedAt: now(),
+  }
+}
+
+export function passCount(report: TestReport) {
+  return report.results.filter((r) => r.passed).length
+}
+
+// The latest report on an earlier revision against the same kind of target, which is what
+// `report` is judged against.
+export function baselineReport(prompt: Prompt, report: TestReport) {
+  const reports = prompt.testReports || []
+  const older = reports.slice(reports.findIndex((r) => r.id === report.id) + 1)
+  return older.find((r) => r.revisionId !== report.revisionId && r.target === report.target) || null
+}
+
+// Cases that passed in `baseline` and fail in `report`.
+export function regressions(report: TestReport, baseline: TestReport | null) {
+  if (!baseline) return []
+  const passedBefore = new Set(baseline.results.filter((r) => r.passed).map((r) => r.caseId))
+  return report.results.filter((r) => !r.passed && passedBefore.has(r.caseId))
+}
+
+// "Revision 3" counting from the first recorded one, or null once it has been trimmed away.
+export function revisionNumber(prompt: Prompt, revisionId: string) {
+  const index = revisionsOf(prompt).findIndex((r) => r.id === revisionId)
+  return index === -1 ? null : index + 1
+}
@@ -0,0 +1,192 @@
+import type { Prompt } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+// One row per prompt. Tags are joined with TAG_SEPARATOR, timestamps are ISO strings
+// so the file reads well in a spreadsheet, and revisions, variants, runs and tests are embedded
+// as JSON.
+// A ";" or "\" inside a tag is escaped with a backslash so the tag survives a round trip.
+
+const COLUMNS = [
+  "id",
+  "title",
+  "content",
+  "category",
+  "tags",
+  "handle",
+  "favorite",
+  "uses",
+  "lastUsedAt",
+  "createdAt",
+  "updatedAt",
+  "revisions",
+  "variants",
+  "testCases",
+  "testReports",
+  "runs",
+  "notesUpdatedAt",
+] as const
+
+const TAG_SEPARATOR = "; "
+
+function joinTags(tags: string[]) {
+  return tags.map((t) => t.replace(/[\\;]/g, "\\$&")).join(TAG_SEPARATOR)
+}
+
+// Other backslashes are kept as typed, so a hand-written "C:\docs" tag stays intact.
+function splitTags(cell: string) {
+  const tags: string[] = []
+  let tag = ""
+  for (let i = 0; i < cell.length; i++) {
+    const ch = cell[i]
+    if (ch === "\\" && (cell[i + 1] === ";" || cell[i + 1] === "\\")) {
+      tag += cell[++i]
+    } else if (ch === ";") {
+      tags.push(tag)
+      tag = ""
+    } else {
+      tag += ch
+    }
+  }
+  tags.push(tag)
+  return tags.map((t) => t.trim()).filter(Boolean)
+}
+
+function escapeCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(prompts: Prompt[]) {
+  const rows = prompts.map((p) =>
+    [
+      p.id,
+      p.title,
+      p.content,
+      p.category || "",
+      joinTags(p.tags),
+      p.handle || "",
+      p.favorite ? "true" : "false",
+      String(p.uses),
+      p.lastUsedAt ? new Date(p.lastUsedAt).toISOString() : "",
+      new Date(p.createdAt).toISOString(),
+      new Date(p.updatedAt).toISOString(),
+      jsonCell(p.revisions),
+      jsonCell(p.variants),
+      jsonCell(p.testCases),
+      jsonCell(p.testReports),
+      jsonCell(p.runs),
+      p.notesUpdatedAt ? new Date(p.notesUpdatedAt).toISOString() : "",
+    ]
+      .map(escapeCell)
+      .join(","),
+  )
+  return [COLUMNS.join(","), ...rows].join("\r\n") + "\r\n"
+}
+
+// RFC 4180 parser: quoted fields may contain commas, quotes ("") and newlines.
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  const src = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ",") {
+      row.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += ch
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""))
+}
+
+function jsonCell(list: unknown[] | undefined) {
+  return list?.length ? JSON.stringify(list) : ""
+}
+
+// Unparseable JSON is passed on as is, so the import preview can reject the row with a reason.
+function parseJsonCell(value: string | undefined) {
+  if (!value) return undefined
+  try {
+    return JSON.parse(value) as unknown
+  } catch {
+    return value
+  }
+}
+
+function parseTime(value: string | undefined, fallback: number) {
+  if (!value) return fallback
+  const asNumber = Number(value)
+  if (Number.isFinite(asNumber)) return asNumber
+  const parsed = Date.parse(value)
+  return Number.isNaN(parsed) ? value : parsed
+}
+
+// Rows become loose records; schema validation happens in the import preview.
+// Missing ids and timestamps are filled in so rows typed into a spreadsheet import cleanly.
+export function fromCsv(text: string): { prompts: unknown[] } {
+  const [header, ...rows] = parseCsvRows(text)
+  if (!header) return { prompts: [] }
+  const index = new Map(header.map((h, i) => [h.trim(), i]))
+  const at = now()
+
+  const prompts = rows.map((cells) => {
+    const get = (col: (typeof COLUMNS)[number]) => {
+      const i = index.get(col)
+      return i === undefined ? undefined : cells[i]
+    }
+    const revisions = parseJsonCell(get("revisions"))
+    const variants = parseJsonCell(get("variants"))
+    const testCases = parseJsonCell(get("testCases"))
+    const testReports = parseJsonCell(get("testReports"))
+    const runs = parseJsonCell(get("runs"))
+    const notesUpdatedAt = get("notesUpdatedAt")
+    const lastUsedAt = get("lastUsedAt")
+    const uses = get("uses")
+    const favorite = (get("favorite") || "").trim().toLowerCase()
+    const handle = get("handle")?.trim()
+    return {
+      id: get("id") || uid(),
+      title: get("title") ?? "",
+      content: get("content") ?? "",
+      category: get("category") || null,
+      tags: splitTags(get("tags") || ""),
+      favorite: favorite === "true" || favorite === "yes" || favorite === "1",
+      uses: uses ? Number(uses) : 0,
+      ...(lastUsedAt ? { lastUsedAt: parseTime(lastUsedAt, at) } : {}),
+      createdAt: parseTime(get("createdAt"), at),
+      updatedAt: parseTime(get("updatedAt"), at),
+      ...(handle ? { handle } : {}),
+      ...(revisions !== undefined ? { revisions } : {}),
+      ...(variants !== undefined ? { variants } : {}),
+      ...(testCases !== undefined ? { testCases } : {}),
+      ...(testReports !== undefined ? { testReports } : {}),
+      ...(runs !== undefined ? { runs } : {}),
+      ...(notesUpdatedAt ? { notesUpdatedAt: parseTime(notesUpdatedAt, at) } : {}),
+    }
+  })
+  return { prompts }
+}
@@ -0,0 +1,62 @@
+import YAML from "yaml"
+import { fromCsv, toCsv } from "@/lib/formats/csv"
+import { fromMarkdownZip, markdownToPrompt, toMarkdownZip } from "@/lib/formats/markdown"
+import type { ExportFile, LabelStyles, Prompt, SmartCollection } from "@/lib/types"
+
+export type LibraryFormat = "json" | "markdown" | "csv" | "yaml"
+
+export const FORMATS: Record<LibraryFormat, { label: string; extension: string; accept: string }> = {
+  json: { label: "JSON", extension: "json", accept: "application/json,.json" },
+  markdown: { label: "Markdown (zip)", extension: "zip", accept: ".zip,.md,.markdown" },
+  csv: { label: "CSV", extension: "csv", accept: "text/csv,.csv" },
+  yaml: { label: "YAML", extension: "yaml", accept: ".yaml,.yml" },
+}
+
+export type ExportScope = "all" | "filtered" | "selected"
+
+// Partial exports only list the categories and tags their prompts use and leave out
+// smart collections and badge styles, so handing someone a slice of the library does not leak the rest of it.
+export function buildExportFile(
+  prompts: Prompt[],
+  library: { categories: string[]; tags: string[]; collections?: SmartCollection[]; labelStyles?: LabelStyles },
+  partial: boolean,
+): ExportFile {
+  const categories = partial
+    ? Array.from(new Set(prompts.flatMap((p) => (p.category ? [p.category] : []))))
+    : library.categories
+  const tags = partial ? Array.from(new Set(prompts.flatMap((p) => p.tags))).sort((a, b) => a.localeCompare(b)) : library.tags
+  const file: ExportFile = { version: 2, exportedAt: Date.now(), prompts, categories, tags }
+  if (!partial && library.collections?.length) file.collections = library.collections
+  if (!partial && library.labelStyles) file.labelStyles = library.labelStyles
+  return file
+}
+
+export async function serializeLibrary(format: LibraryFormat, payload: ExportFile): Promise<Blob> {
+  switch (format) {
+    case "json":
+      return new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" })
+    case "yaml":
+      return new Blob([YAML.stringify(payload)], { type: "application/yaml" })
+    case "csv":
+      return new Blob([toCsv(payload.prompts)], { type: "text/csv" })
+    case "markdown":
+      return toMarkdownZip(payload)
+  }
+}
+
+// Turns a file into the loose `{ prompts, categories?, tags? }` shape the import preview validates.
+export async function parseLibraryFile(format: LibraryFormat, file: File): Promise<unknown> {
+  switch (format) {
+    case "json":
+      return JSON.parse(await file.text())
+    case "yaml": {
+      const data = YAML.parse(await file.text())
+      return Array.isArray(data) ? { prompts: data } : data
+    }
+    case "csv":
+      return fromCsv(await file.text())
+    case "markdown":
+      if (/\.(md|markdown)$/i.test(file.name)) return { prompts: [markdownToPrompt(await file.text())] }
+      return fromMarkdownZip(await file.arrayBuffer())
+  }
+}
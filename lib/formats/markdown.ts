@@ -0,0 +1,123 @@
+import JSZip from "jszip"
+import YAML from "yaml"
+import type { ExportFile, Prompt } from "@/lib/types"
+import { now, slugify, uid } from "@/lib/utils"
+
+// A zip with one Markdown file per prompt, laid out in category folders so it can
+// live in a git repository. Everything except `content` goes into YAML front matter.
+
+const MANIFEST = "library.yml"
+const FRONT_MATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/
+
+function folderFor(category: string | null) {
+  if (!category) return "uncategorized"
+  return category
+    .split("/")
+    .map((part) => slugify(part))
+    .join("/")
+}
+
+export function promptToMarkdown(p: Prompt) {
+  const front: Record<string, unknown> = {
+    id: p.id,
+    title: p.title,
+    category: p.category,
+    tags: p.tags,
+    favorite: p.favorite,
+    uses: p.uses,
+    ...(p.lastUsedAt ? { lastUsedAt: new Date(p.lastUsedAt).toISOString() } : {}),
+    createdAt: new Date(p.createdAt).toISOString(),
+    updatedAt: new Date(p.updatedAt).toISOString(),
+  }
+  if (p.handle) front.handle = p.handle
+  if (p.revisions?.length) front.revisions = p.revisions
+  if (p.variants?.length) front.variants = p.variants
+  if (p.testCases?.length) front.testCases = p.testCases
+  if (p.testReports?.length) front.testReports = p.testReports
+  if (p.runs?.length) front.runs = p.runs
+  if (p.notesUpdatedAt) front.notesUpdatedAt = new Date(p.notesUpdatedAt).toISOString()
+  return `---\n${YAML.stringify(front).trimEnd()}\n---\n\n${p.content}\n`
+}
+
+function toTime(value: unknown, fallback: number) {
+  if (value === undefined || value === null || value === "") return fallback
+  if (typeof value === "number") return value
+  if (value instanceof Date) return value.getTime()
+  const parsed = Date.parse(String(value))
+  return Number.isNaN(parsed) ? value : parsed
+}
+
+// Returns a loose record; schema validation happens in the import preview.
+export function markdownToPrompt(text: string, fallbackCategory: string | null = null): Record<string, unknown> {
+  const match = text.match(FRONT_MATTER_RE)
+  const front = (match ? YAML.parse(match[1]) : {}) as Record<string, unknown> | null
+  const body = match ? text.slice(match[0].length) : text
+  const content = body.replace(/^\r?\n/, "").replace(/\r?\n$/, "")
+  const at = now()
+  const data = front && typeof front === "object" ? front : {}
+  return {
+    ...data,
+    id: data.id ?? uid(),
+    title: data.title ?? "",
+    content,
+    category: data.category === undefined ? fallbackCategory : data.category,
+    tags: data.tags ?? [],
+    favorite: data.favorite ?? false,
+    uses: data.uses ?? 0,
+    createdAt: toTime(data.createdAt, at),
+    updatedAt: toTime(data.updatedAt, at),
+    ...(data.lastUsedAt ? { lastUsedAt: toTime(data.lastUsedAt, at) } : {}),
+    ...(data.notesUpdatedAt ? { notesUpdatedAt: toTime(data.notesUpdatedAt, at) } : {}),
+  }
+}
+
+export async function toMarkdownZip(payload: ExportFile): Promise<Blob> {
+  const zip = new JSZip()
+  const used = new Set<string>()
+  for (const p of payload.prompts) {
+    const base = `${folderFor(p.category)}/${slugify(p.title)}`
+    let path = `${base}.md`
+    for (let n = 2; used.has(path); n++) path = `${base}-${n}.md`
+    used.add(path)
+    zip.file(path, promptToMarkdown(p))
+  }
+  const manifest = {
+    version: payload.version,
+    exportedAt: new Date(payload.exportedAt).toISOString(),
+    categories: payload.categories,
+    tags: payload.tags,
+    ...(payload.collections?.length ? { collections: payload.collections } : {}),
+    ...(payload.labelStyles ? { labelStyles: payload.labelStyles } : {}),
+  }
+  zip.file(MANIFEST, YAML.stringify(manifest))
+  return zip.generateAsync({ type: "blob" })
+}
+
+export async function fromMarkdownZip(data: Blob | ArrayBuffer) {
+  const zip = await JSZip.loadAsync(data)
+  const prompts: Record<string, unknown>[] = []
+  let categories: string[] | undefined
+  let tags: string[] | undefined
+  let collections: unknown[] | undefined
+  let labelStyles: unknown
+  let version: number | undefined
+
+  const files = Object.values(zip.files).filter((f) => !f.dir && !f.name.startsWith("__MACOSX/"))
+  for (const file of files) {
+    if (file.name.split("/").pop() === MANIFEST) {
+      const manifest = YAML.parse(await file.async("string")) as Partial<ExportFile> | null
+      if (manifest && Array.isArray(manifest.categories)) categories = manifest.categories
+      if (manifest && Array.isArray(manifest.tags)) tags = manifest.tags
+      if (manifest && Array.isArray(manifest.collections)) collections = manifest.collections
+      if (manifest?.labelStyles) labelStyles = manifest.labelStyles
+      if (typeof manifest?.version === "number") version = manifest.version
+      continue
+    }
+    if (!/\.(md|markdown)$/i.test(file.name)) continue
+    // Files without a category in front matter take it from their folder.
+    const folder = file.name.split("/").slice(0, -1).join("/")
+    const fallback = folder && folder !== "uncategorized" ? folder : null
+    prompts.push(markdownToPrompt(await file.async("string"), fallback))
+  }
+  return { version, prompts, categories, tags, collections, labelStyles }
+}
@@ -0,0 +1,79 @@
+import { mergeNotes } from "@/lib/sync"
+import type { LabelStyles, Prompt } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+// The category list and badge styles as they were before a change to the folders.
+export type LabelsSnapshot = { categories: string[]; labelStyles: LabelStyles }
+
+// One undoable change to the prompt list: the records as they were before it,
+// plus the ids of records it created.
+export type HistoryEntry = {
+  id: string
+  label: string
+  at: number
+  before: Prompt[]
+  // The same records right after it, so undo can tell which fields the change touched.
+  after: Prompt[]
+  added: string[]
+  // Set for folder renames and deletes, which change more than the prompts.
+  labels?: LabelsSnapshot
+}
+
+export const HISTORY_LIMIT = 50
+
+export function recordChange(
+  prev: Prompt[],
+  next: Prompt[],
+  label: string,
+  labels?: LabelsSnapshot,
+): HistoryEntry | null {
+  const nextById = new Map(next.map((p) => [p.id, p]))
+  const prevIds = new Set(prev.map((p) => p.id))
+  const before = prev.filter((p) => nextById.get(p.id) !== p)
+  const added = next.filter((p) => !prevIds.has(p.id)).map((p) => p.id)
+  if (before.length === 0 && added.length === 0 && !labels) return null
+  const after = before.flatMap((p) => nextById.get(p.id) ?? [])
+  return { id: uid(), label, at: now(), before, after, added, ...(labels ? { labels } : {}) }
+}
+
+// Fields the change left alone keep their current value, and notes recorded since are merged
+// in, so later copies, runs, ratings, reports and favorite toggles survive the undo.
+function revertFields(current: Prompt, before: Prompt, after: Prompt | undefined): Prompt {
+  if (!after) return mergeNotes(before, current)
+  const next: Record<string, unknown> = { ...current }
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const k = key as keyof Prompt
+    if (before[k] === after[k]) continue
+    if (before[k] === undefined) delete next[key]
+    else next[key] = before[k]
+  }
+  return mergeNotes(next as Prompt, current)
+}
+
+// Puts back only the records and fields the entry touched, leaving later unrelated changes alone.
+// Restored copies get a fresh updatedAt so other tabs and the server accept them.
+export function revertChange(current: Prompt[], entry: HistoryEntry): Prompt[] {
+  const original = new Map(entry.before.map((p) => [p.id, p]))
+  const added = new Set(entry.added)
+  const at = now()
+  const kept = current.filter((p) => !added.has(p.id))
+  const present = new Set(kept.map((p) => p.id))
+  const changed = new Map(entry.after.map((p) => [p.id, p]))
+  const restored = kept.map((p) => {
+    const o = original.get(p.id)
+    return o ? { ...revertFields(p, o, changed.get(p.id)), updatedAt: Math.max(at, p.updatedAt + 1) } : p
+  })
+  const missing = entry.before
+    .filter((p) => !present.has(p.id))
+    .map((p) => ({ ...p, updatedAt: Math.max(at, p.updatedAt + 1) }))
+  return [...missing, ...restored]
+}
+
+export function moveToTrash(p: Prompt, at = now()): Prompt {
+  return { ...p, deletedAt: at, updatedAt: at }
+}
+
+export function restoreFromTrash(p: Prompt, at = now()): Prompt {
+  const { deletedAt: _deletedAt, ...rest } = p
+  return { ...rest, updatedAt: at }
+}
@@ -0,0 +1,190 @@
+import { z } from "zod"
+import { upgradeCategoryFilter } from "@/lib/categories"
+import { formatZodError, labelStylesSchema, promptSchema, smartCollectionSchema } from "@/lib/schema"
+import type { LabelStyles, Prompt, SmartCollection } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+export type ImportStatus = "new" | "identical" | "conflict"
+export type ConflictResolution = "mine" | "theirs" | "both" | "newest"
+
+export type ImportItem = {
+  status: ImportStatus
+  incoming: Prompt
+  existing?: Prompt
+}
+
+export type RejectedRecord = {
+  index: number
+  id?: string
+  title?: string
+  reasons: string[]
+}
+
+export type ImportPreview = {
+  items: ImportItem[]
+  rejected: RejectedRecord[]
+  categories: string[]
+  tags: string[]
+  collections: SmartCollection[]
+  labelStyles: LabelStyles
+}
+
+const fileShape = z.object({
+  version: z.number().optional(),
+  prompts: z.array(z.unknown()),
+  categories: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  collections: z.array(z.unknown()).optional(),
+  labelStyles: z.unknown().optional(),
+})
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImportFileError"
+  }
+}
+
+// Key order differs between stored records and parsed ones, so keys are sorted before comparing.
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical)
+  if (!value || typeof value !== "object") return value
+  const record = value as Record<string, unknown>
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort()
+      .map((k) => [k, canonical(record[k])]),
+  )
+}
+
+// A missing list equals an empty one.
+function sameList(a: unknown[] | undefined, b: unknown[] | undefined) {
+  return JSON.stringify(canonical(a || [])) === JSON.stringify(canonical(b || []))
+}
+
+function sameContent(a: Prompt, b: Prompt) {
+  return (
+    a.title === b.title &&
+    a.content === b.content &&
+    (a.category || null) === (b.category || null) &&
+    a.tags.length === b.tags.length &&
+    a.tags.every((t, i) => t === b.tags[i]) &&
+    a.favorite === b.favorite &&
+    (a.handle || "") === (b.handle || "") &&
+    sameList(a.variants, b.variants) &&
+    sameList(a.testCases, b.testCases) &&
+    !a.deletedAt === !b.deletedAt
+  )
+}
+
+// Validates every record on its own so one bad entry does not sink the whole file.
+export function buildImportPreview(data: unknown, existing: Prompt[]): ImportPreview {
+  const file = fileShape.safeParse(data)
+  if (!file.success) throw new ImportFileError("File is not a prompt export: expected a `prompts` array")
+
+  const byId = new Map(existing.map((p) => [p.id, p]))
+  const seen = new Set<string>()
+  const items: ImportItem[] = []
+  const rejected: RejectedRecord[] = []
+
+  file.data.prompts.forEach((raw, index) => {
+    const loose = (raw && typeof raw === "object" ? raw : {}) as { id?: unknown; title?: unknown }
+    const id = typeof loose.id === "string" ? loose.id : undefined
+    const title = typeof loose.title === "string" ? loose.title : undefined
+    const parsed = promptSchema.safeParse(raw)
+    if (!parsed.success) {
+      rejected.push({ index, id, title, reasons: formatZodError(parsed.error) })
+      return
+    }
+    const incoming = parsed.data as Prompt
+    if (seen.has(incoming.id)) {
+      rejected.push({ index, id, title, reasons: [`Duplicate id ${incoming.id} earlier in the file`] })
+      return
+    }
+    seen.add(incoming.id)
+    const mine = byId.get(incoming.id)
+    if (!mine) items.push({ status: "new", incoming })
+    else items.push({ status: sameContent(mine, incoming) ? "identical" : "conflict", incoming, existing: mine })
+  })
+
+  // Malformed collections and styles are dropped quietly; they are only display settings.
+  const collections = (file.data.collections || []).flatMap((raw) => {
+    const parsed = smartCollectionSchema.safeParse(raw)
+    if (!parsed.success) return []
+    const collection = parsed.data as SmartCollection
+    // Version 1 files wrote the all/uncategorized filters as bare words.
+    if ((file.data.version ?? 1) >= 2) return [collection]
+    return [{ ...collection, filters: upgradeCategoryFilter(collection.filters) }]
+  })
+
+  const styles = labelStylesSchema.safeParse(file.data.labelStyles)
+  const labelStyles: LabelStyles = styles.success ? styles.data : { categories: {}, tags: {} }
+
+  return {
+    items,
+    rejected,
+    categories: file.data.categories || [],
+    tags: file.data.tags || [],
+    collections,
+    labelStyles,
+  }
+}
+
+// Adds collections not already present by id, keeping the user's order first.
+export function mergeCollections(existing: SmartCollection[], incoming: SmartCollection[]) {
+  const ids = new Set(existing.map((c) => c.id))
+  return [...existing, ...incoming.filter((c) => !ids.has(c.id))]
+}
+
+function duplicateOf(p: Prompt): Prompt {
+  const at = now()
+  return { ...p, id: uid(), title: `${p.title} (imported)`, createdAt: at, updatedAt: at, revisions: undefined }
+}
+
+export type ImportResult = {
+  prompts: Prompt[]
+  added: number
+  replaced: number
+  duplicated: number
+  skipped: number
+}
+
+// `resolutions` is keyed by prompt id and only consulted for conflicts.
+export function applyImport(
+  existing: Prompt[],
+  items: ImportItem[],
+  resolutions: Record<string, ConflictResolution>,
+): ImportResult {
+  const result: ImportResult = { prompts: [], added: 0, replaced: 0, duplicated: 0, skipped: 0 }
+  const replacements = new Map<string, Prompt>()
+  const additions: Prompt[] = []
+
+  for (const item of items) {
+    if (item.status === "new") {
+      additions.push(item.incoming)
+      result.added++
+      continue
+    }
+    if (item.status === "identical" || !item.existing) {
+      result.skipped++
+      continue
+    }
+    const choice = resolutions[item.incoming.id] || "mine"
+    const takeTheirs =
+      choice === "theirs" || (choice === "newest" && item.incoming.updatedAt > item.existing.updatedAt)
+    if (choice === "both") {
+      additions.push(duplicateOf(item.incoming))
+      result.duplicated++
+    } else if (takeTheirs) {
+      replacements.set(item.incoming.id, item.incoming)
+      result.replaced++
+    } else {
+      result.skipped++
+    }
+  }
+
+  result.prompts = [...additions, ...existing.map((p) => replacements.get(p.id) || p)].sort(
+    (a, b) => b.updatedAt - a.updatedAt,
+  )
+  return result
+}
@@ -0,0 +1,80 @@
+import type { Prompt } from "@/lib/types"
+
+// `{{> name}}` pulls in the content of the prompt whose include name (`handle`) is
+// `name`. Includes nest; following them back to a prompt already being expanded is a
+// cycle, which is reported and left unexpanded.
+const INCLUDE_RE = /\{\{>\s*([A-Za-z0-9][\w.-]*)\s*\}\}/g
+
+export function normalizeHandle(handle: string) {
+  return handle
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_.-]+/g, "-")
+    .replace(/^[-_.]+|-+$/g, "")
+}
+
+export function includeTag(handle: string) {
+  return `{{> ${handle}}}`
+}
+
+export function parseIncludes(content: string) {
+  return Array.from(new Set(Array.from(content.matchAll(INCLUDE_RE), (m) => m[1])))
+}
+
+export function hasIncludes(content: string) {
+  INCLUDE_RE.lastIndex = 0
+  return INCLUDE_RE.test(content)
+}
+
+// Live prompts by include name; the most recently edited one wins if a name is taken twice.
+export function buildHandleMap(prompts: Prompt[]) {
+  const map = new Map<string, Prompt>()
+  for (const p of [...prompts].sort((a, b) => a.updatedAt - b.updatedAt)) {
+    if (p.handle && !p.deletedAt) map.set(p.handle, p)
+  }
+  return map
+}
+
+export type Expansion = {
+  text: string
+  missing: string[]
+  // Handles along the first loop found, ending where it started: ["a", "b", "a"].
+  cycle: string[] | null
+}
+
+// `self` is the include name of the prompt being expanded, so it cannot include itself.
+export function expandIncludes(
+  content: string,
+  handles: Map<string, Pick<Prompt, "content">>,
+  self?: string,
+): Expansion {
+  const missing = new Set<string>()
+  let cycle: string[] | null = null
+
+  function expand(text: string, stack: string[]): string {
+    return text.replace(INCLUDE_RE, (match, name: string) => {
+      if (stack.includes(name)) {
+        cycle ??= [...stack.slice(stack.indexOf(name)), name]
+        return match
+      }
+      const target = handles.get(name)
+      if (!target) {
+        missing.add(name)
+        return match
+      }
+      return expand(target.content, [...stack, name])
+    })
+  }
+
+  const text = expand(content, self ? [self] : [])
+  return { text, missing: Array.from(missing), cycle }
+}
+
+// Prompts that include `handle` directly.
+export function findUsages(handle: string, prompts: Prompt[]) {
+  return prompts.filter((p) => !p.deletedAt && p.handle !== handle && parseIncludes(p.content).includes(handle))
+}
+
+export function renameIncludes(content: string, from: string, to: string) {
+  return content.replace(INCLUDE_RE, (match, name: string) => (name === from ? includeTag(to) : match))
+}
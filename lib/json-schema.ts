@@ -0,0 +1,115 @@
+// A small JSON Schema validator covering what test assertions need: type, enum, const, the
+// string, number and array bounds, properties/required/additionalProperties, items and the
+// allOf/anyOf/oneOf/not combinators. Anything else in a schema is ignored.
+
+export type JsonSchema = boolean | { [keyword: string]: unknown }
+
+function typeOf(value: unknown) {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string) {
+  if (type === "integer") return Number.isInteger(value)
+  if (type === "number") return typeof value === "number" && Number.isFinite(value)
+  return typeOf(value) === type
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === "object"
+}
+
+function equal(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Problems with `value`, each prefixed with the path to the offending part; empty when it is valid.
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  if (schema === true) return []
+  if (schema === false) return [`${path}: not allowed`]
+  if (!isObject(schema)) return []
+  const errors: string[] = []
+  const s = schema as Record<string, unknown>
+
+  if (s.type !== undefined) {
+    const types = (Array.isArray(s.type) ? s.type : [s.type]).map(String)
+    if (!types.some((t) => matchesType(value, t))) {
+      // A wrong type makes the other keywords meaningless.
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`]
+    }
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((e) => equal(e, value))) {
+    errors.push(`${path}: must be one of ${s.enum.map((e) => JSON.stringify(e)).join(", ")}`)
+  }
+  if ("const" in s && !equal(s.const, value)) errors.push(`${path}: must be ${JSON.stringify(s.const)}`)
+
+  if (typeof value === "string") {
+    if (typeof s.minLength === "number" && value.length < s.minLength) {
+      errors.push(`${path}: shorter than ${s.minLength} characters`)
+    }
+    if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+      errors.push(`${path}: longer than ${s.maxLength} characters`)
+    }
+    if (typeof s.pattern === "string") {
+      try {
+        if (!new RegExp(s.pattern, "u").test(value)) errors.push(`${path}: does not match ${s.pattern}`)
+      } catch {
+        errors.push(`${path}: invalid pattern ${s.pattern}`)
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof s.minimum === "number" && value < s.minimum) errors.push(`${path}: less than ${s.minimum}`)
+    if (typeof s.maximum === "number" && value > s.maximum) errors.push(`${path}: greater than ${s.maximum}`)
+    if (typeof s.exclusiveMinimum === "number" && value <= s.exclusiveMinimum) {
+      errors.push(`${path}: must be greater than ${s.exclusiveMinimum}`)
+    }
+    if (typeof s.exclusiveMaximum === "number" && value >= s.exclusiveMaximum) {
+      errors.push(`${path}: must be less than ${s.exclusiveMaximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === "number" && value.length < s.minItems) {
+      errors.push(`${path}: fewer than ${s.minItems} items`)
+    }
+    if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+      errors.push(`${path}: more than ${s.maxItems} items`)
+    }
+    if (s.uniqueItems === true && new Set(value.map((v) => JSON.stringify(v))).size !== value.length) {
+      errors.push(`${path}: items must be unique`)
+    }
+    if (s.items !== undefined && !Array.isArray(s.items)) {
+      value.forEach((item, i) => errors.push(...validateJson(item, s.items as JsonSchema, `${path}[${i}]`)))
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(s.properties) ? (s.properties as Record<string, JsonSchema>) : {}
+    if (Array.isArray(s.required)) {
+      for (const key of s.required) if (!Object.hasOwn(value, key)) errors.push(`${path}: missing property "${key}"`)
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (Object.hasOwn(properties, key)) errors.push(...validateJson(child, properties[key], `${path}.${key}`))
+      else if (s.additionalProperties === false) errors.push(`${path}: unexpected property "${key}"`)
+      else if (isObject(s.additionalProperties)) {
+        errors.push(...validateJson(child, s.additionalProperties as JsonSchema, `${path}.${key}`))
+      }
+    }
+  }
+
+  if (Array.isArray(s.allOf)) for (const sub of s.allOf) errors.push(...validateJson(value, sub, path))
+  if (Array.isArray(s.anyOf) && !s.anyOf.some((sub) => validateJson(value, sub, path).length === 0)) {
+    errors.push(`${path}: does not match any of the allowed shapes`)
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matches = s.oneOf.filter((sub) => validateJson(value, sub, path).length === 0).length
+    if (matches !== 1) errors.push(`${path}: must match exactly one of the allowed shapes, matches ${matches}`)
+  }
+  if (s.not !== undefined && validateJson(value, s.not as JsonSchema, path).length === 0) {
+    errors.push(`${path}: matches a disallowed shape`)
+  }
+  return errors
+}
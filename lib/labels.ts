@@ -0,0 +1,66 @@
+import { isInCategory } from "@/lib/categories"
+import type { LabelStyle, LabelStyles, Prompt } from "@/lib/types"
+
+// Renaming, merging and deleting categories and tags across the library. Merging is a
+// rename onto a name that already exists.
+
+export const EMPTY_LABEL_STYLES: LabelStyles = { categories: {}, tags: {} }
+
+// Moves `from` and its subfolders under `to`, e.g. Coding/TS -> Dev/TS.
+export function renameCategoryPath(category: string, from: string, to: string) {
+  return isInCategory(category, from) ? `${to}${category.slice(from.length)}` : category
+}
+
+export function renameCategoryInList(categories: string[], from: string, to: string) {
+  return Array.from(new Set([...categories.map((c) => renameCategoryPath(c, from, to)), to]))
+}
+
+// Drops the folder and its subfolders; `reassignTo` is kept in the list so it still shows.
+export function removeCategoryFromList(categories: string[], path: string, reassignTo: string | null) {
+  const kept = categories.filter((c) => !isInCategory(c, path))
+  return reassignTo && !kept.includes(reassignTo) ? [...kept, reassignTo] : kept
+}
+
+// Replaces any of `from` with `to` (or removes them when `to` is null), without duplicates.
+export function replaceTags(tags: string[], from: string[], to: string | null) {
+  if (!tags.some((t) => from.includes(t))) return tags
+  const out: string[] = []
+  for (const t of tags) {
+    const next = from.includes(t) ? to : t
+    if (next && !out.includes(next)) out.push(next)
+  }
+  return out
+}
+
+export function countTags(prompts: Prompt[]) {
+  const counts = new Map<string, number>()
+  for (const p of prompts) for (const t of p.tags) counts.set(t, (counts.get(t) || 0) + 1)
+  return counts
+}
+
+// Groups names that only differ by case or spacing, like "seo" and "SEO ".
+export function findDuplicates(names: string[]) {
+  const groups = new Map<string, string[]>()
+  for (const name of names) {
+    const key = name.toLowerCase().replace(/[\s_-]+/g, " ").trim()
+    groups.set(key, [...(groups.get(key) || []), name])
+  }
+  return Array.from(groups.values()).filter((g) => g.length > 1)
+}
+
+// Carries styles over to the new name; an existing style on the target wins.
+export function renameStyles(styles: Record<string, LabelStyle>, rename: (name: string) => string) {
+  const out: Record<string, LabelStyle> = {}
+  for (const [name, style] of Object.entries(styles)) {
+    const next = rename(name)
+    if (next === name || !(next in styles)) out[next] = out[next] || style
+  }
+  return out
+}
+
+export function mergeLabelStyles(existing: LabelStyles, incoming: LabelStyles): LabelStyles {
+  return {
+    categories: { ...incoming.categories, ...existing.categories },
+    tags: { ...incoming.tags, ...existing.tags },
+  }
+}
@@ -0,0 +1,194 @@
+import type { LlmSettings, Prompt, PromptRun } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+// Playground and comparison runs are kept per prompt, newest first.
+export const PROMPT_RUN_LIMIT = 50
+
+// Ollama's OpenAI-compatible endpoint; any server implementing /chat/completions works.
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  baseUrl: "http://localhost:11434/v1",
+  apiKey: "",
+  model: "llama3.2",
+  temperature: 0.7,
+  maxTokens: 1024,
+}
+
+export type CompletionRequest = {
+  prompt: string
+  model: string
+  temperature: number
+  maxTokens: number
+}
+
+// A backend the playground can run prompts against. `onDelta` receives text as it
+// streams in; the promise resolves with the full answer.
+export type LlmProvider = {
+  complete(
+    request: CompletionRequest,
+    options: { signal?: AbortSignal; onDelta: (text: string) => void },
+  ): Promise<string>
+}
+
+export class LlmError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = "LlmError"
+    this.status = status
+  }
+}
+
+export function normalizeLlmSettings(settings: Partial<LlmSettings> | undefined): LlmSettings {
+  const s = { ...DEFAULT_LLM_SETTINGS, ...settings }
+  return {
+    baseUrl: String(s.baseUrl).trim(),
+    apiKey: String(s.apiKey),
+    model: String(s.model).trim(),
+    temperature: Number.isFinite(s.temperature) ? Math.min(2, Math.max(0, s.temperature)) : 0.7,
+    maxTokens: Number.isInteger(s.maxTokens) && s.maxTokens > 0 ? s.maxTokens : DEFAULT_LLM_SETTINGS.maxTokens,
+  }
+}
+
+// The `data:` payloads of a server-sent event stream.
+async function* eventData(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+      const lines = buffer.split(/\r?\n/)
+      buffer = done ? "" : lines.pop()!
+      for (const line of lines) {
+        if (line.startsWith("data:")) yield line.slice(5).trim()
+      }
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+async function errorMessage(res: Response) {
+  const text = await res.text().catch(() => "")
+  try {
+    const body = JSON.parse(text)
+    const message = body?.error?.message ?? body?.error ?? body?.message
+    if (typeof message === "string" && message) return message
+  } catch {}
+  return text.trim().slice(0, 300) || `Request failed with ${res.status}`
+}
+
+export function openAICompatible({ baseUrl, apiKey }: Pick<LlmSettings, "baseUrl" | "apiKey">): LlmProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`
+  return {
+    async complete(request, { signal, onDelta }) {
+      let res: Response
+      try {
+        res = await fetch(url, {
+          method: "POST",
+          signal,
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: request.model,
+            messages: [{ role: "user", content: request.prompt }],
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true,
+          }),
+        })
+      } catch (err) {
+        if (signal?.aborted) throw err
+        // fetch only rejects on network failures, which in a browser includes a blocked CORS preflight.
+        throw new LlmError(`Could not reach ${url}. Is the server running and does it allow this origin?`)
+      }
+      if (!res.ok) throw new LlmError(await errorMessage(res), res.status)
+
+      // Servers that ignore `stream` answer with a single JSON body.
+      if (!res.body || !res.headers.get("content-type")?.includes("text/event-stream")) {
+        const body = await res.json().catch(() => null)
+        const text = body?.choices?.[0]?.message?.content
+        if (typeof text !== "string") throw new LlmError("The response did not contain a completion")
+        onDelta(text)
+        return text
+      }
+
+      let output = ""
+      for await (const data of eventData(res.body)) {
+        if (data === "[DONE]") break
+        let chunk
+        try {
+          chunk = JSON.parse(data)
+        } catch {
+          continue
+        }
+        if (chunk?.error) throw new LlmError(chunk.error.message ?? String(chunk.error))
+        const delta = chunk?.choices?.[0]?.delta?.content
+        if (typeof delta === "string" && delta) {
+          output += delta
+          onDelta(delta)
+        }
+      }
+      return output
+    },
+  }
+}
+
+// Sends `input` and times it. Never rejects: failures and aborts come back as the run's status,
+// with whatever output had streamed in by then.
+export async function executeRun(
+  settings: LlmSettings,
+  input: string,
+  { signal, onOutput }: { signal?: AbortSignal; onOutput?: (output: string) => void } = {},
+  provider: LlmProvider = openAICompatible(settings),
+): Promise<PromptRun> {
+  const params = {
+    baseUrl: settings.baseUrl,
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+  }
+  const createdAt = now()
+  const startedAt = performance.now()
+  let output = ""
+  let firstTokenMs: number | undefined
+
+  const finish = (status: PromptRun["status"], error?: string): PromptRun => ({
+    id: uid(),
+    createdAt,
+    input,
+    output,
+    params,
+    status,
+    error,
+    firstTokenMs,
+    latencyMs: Math.round(performance.now() - startedAt),
+  })
+
+  try {
+    await provider.complete(
+      { prompt: input, model: params.model, temperature: params.temperature, maxTokens: params.maxTokens },
+      {
+        signal,
+        onDelta: (delta) => {
+          firstTokenMs ??= Math.round(performance.now() - startedAt)
+          output += delta
+          onOutput?.(output)
+        },
+      },
+    )
+    return finish("done")
+  } catch (err) {
+    if (signal?.aborted) return finish("stopped")
+    return finish("error", err instanceof Error ? err.message : String(err))
+  }
+}
+
+export function addPromptRun(prompt: Prompt, run: PromptRun): Prompt {
+  return { ...prompt, runs: [run, ...(prompt.runs || [])].slice(0, PROMPT_RUN_LIMIT), notesUpdatedAt: now() }
+}
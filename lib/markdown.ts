@@ -0,0 +1,178 @@
+// Markdown helpers for the prompt editor: a line highlighter for the text under the textarea,
+// and the toolbar's edits on the current selection. Rendering is left to react-markdown.
+
+export type MarkdownTokenKind =
+  | "marker"
+  | "strong"
+  | "em"
+  | "strike"
+  | "inline-code"
+  | "link"
+  | "variable"
+  | "include"
+
+export type MarkdownToken = { text: string; kind?: MarkdownTokenKind }
+
+export type MarkdownLine = {
+  kind: "text" | "heading" | "quote" | "fence" | "code" | "rule"
+  tokens: MarkdownToken[]
+}
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})/
+const HEADING_RE = /^(\s{0,3}#{1,6})(\s|$)/
+const LIST_RE = /^(\s*(?:[-*+]|\d+[.)])(?:\s\[[ xX]\])?)(\s)/
+const QUOTE_RE = /^(\s{0,3}>+)/
+const RULE_RE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/
+const VARIABLE_RE = /\{\{[^{}]*\}\}/g
+const INLINE_PATTERNS: [MarkdownTokenKind, RegExp][] = [
+  ["include", /\{\{\s*>[^{}]*\}\}/],
+  ["variable", /\{\{[^{}]*\}\}/],
+  ["inline-code", /`[^`\n]+`/],
+  ["strong", /\*\*[^*\n]+\*\*|__[^_\n]+__/],
+  ["strike", /~~[^~\n]+~~/],
+  ["em", /\*[^*\s][^*\n]*\*|\b_[^_\s][^_\n]*_\b/],
+  ["link", /\[[^\]\n]+\]\([^)\n]*\)/],
+]
+const INLINE_RE = new RegExp(INLINE_PATTERNS.map(([, re]) => `(${re.source})`).join("|"), "g")
+
+function tokenize(text: string, re: RegExp, kindOf: (m: RegExpExecArray) => MarkdownTokenKind): MarkdownToken[] {
+  const tokens: MarkdownToken[] = []
+  let last = 0
+  re.lastIndex = 0
+  for (let m = re.exec(text); m; m = re.exec(text)) {
+    if (m.index > last) tokens.push({ text: text.slice(last, m.index) })
+    tokens.push({ text: m[0], kind: kindOf(m) })
+    last = m.index + m[0].length
+  }
+  if (last < text.length) tokens.push({ text: text.slice(last) })
+  return tokens
+}
+
+function inline(text: string) {
+  return tokenize(text, INLINE_RE, (m) => {
+    const group = m.slice(1).findIndex((g) => g !== undefined)
+    return INLINE_PATTERNS[group][0]
+  })
+}
+
+// Variables are filled in wherever they appear, code blocks included, so they are marked there too.
+function variablesOnly(text: string) {
+  return tokenize(text, VARIABLE_RE, (m) => (m[0].startsWith("{{>") ? "include" : "variable"))
+}
+
+// One entry per line of `text`; the tokens of a line always join back to the line exactly.
+export function highlightMarkdown(text: string): MarkdownLine[] {
+  let fence: string | null = null
+  return text.split("\n").map((line): MarkdownLine => {
+    const open = line.match(FENCE_RE)
+    if (fence) {
+      if (open && open[1][0] === fence[0] && open[1].length >= fence.length) fence = null
+      return { kind: open && !fence ? "fence" : "code", tokens: variablesOnly(line) }
+    }
+    if (open) {
+      fence = open[1]
+      return { kind: "fence", tokens: variablesOnly(line) }
+    }
+    if (RULE_RE.test(line)) return { kind: "rule", tokens: [{ text: line, kind: "marker" }] }
+    for (const [re, kind] of [
+      [HEADING_RE, "heading"],
+      [QUOTE_RE, "quote"],
+      [LIST_RE, "text"],
+    ] as const) {
+      const m = line.match(re)
+      if (m) return { kind, tokens: [{ text: m[1], kind: "marker" }, ...inline(line.slice(m[1].length))] }
+    }
+    return { kind: "text", tokens: inline(line) }
+  })
+}
+
+export type TextEdit = { value: string; selectionStart: number; selectionEnd: number }
+
+// Wraps the selection in `before`/`after`, or unwraps it when it is already wrapped. With nothing
+// selected, `placeholder` is inserted and selected so it can be typed over.
+export function wrapSelection(
+  value: string,
+  start: number,
+  end: number,
+  before: string,
+  after = before,
+  placeholder = "text",
+): TextEdit {
+  const selected = value.slice(start, end)
+  if (value.slice(start - before.length, start) === before && value.slice(end, end + after.length) === after) {
+    return {
+      value: value.slice(0, start - before.length) + selected + value.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    }
+  }
+  const inner = selected || placeholder
+  return {
+    value: value.slice(0, start) + before + inner + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + inner.length,
+  }
+}
+
+// Adds `prefix` to every line the selection touches, or removes it when all of them have it.
+// `prefix` may be a function of the line's position, for numbered lists.
+export function prefixLines(
+  value: string,
+  start: number,
+  end: number,
+  prefix: string | ((index: number) => string),
+  existing: RegExp,
+): TextEdit {
+  const from = value.lastIndexOf("\n", start - 1) + 1
+  // A selection ending right after a line break does not take in the next line.
+  const last = end > start && value[end - 1] === "\n" ? end - 1 : end
+  const newline = value.indexOf("\n", last)
+  const to = newline === -1 ? value.length : newline
+  const lines = value.slice(from, to).split("\n")
+  const remove = lines.every((l) => existing.test(l))
+  const next = lines.map((l, i) => {
+    if (remove) return l.replace(existing, "")
+    return (typeof prefix === "string" ? prefix : prefix(i)) + l
+  })
+  const block = next.join("\n")
+  return {
+    value: value.slice(0, from) + block + value.slice(to),
+    selectionStart: from,
+    selectionEnd: from + block.length,
+  }
+}
+
+// Puts the selection on lines of its own between `open` and `close`, e.g. a code fence.
+export function insertBlock(value: string, start: number, end: number, open: string, close: string): TextEdit {
+  const selected = value.slice(start, end) || "code"
+  const lead = start > 0 && value[start - 1] !== "\n" ? "\n" : ""
+  const trail = end < value.length && value[end] !== "\n" ? "\n" : ""
+  const inserted = `${lead}${open}\n${selected}\n${close}${trail}`
+  const at = start + lead.length + open.length + 1
+  return {
+    value: value.slice(0, start) + inserted + value.slice(end),
+    selectionStart: at,
+    selectionEnd: at + selected.length,
+  }
+}
+
+const LIST_ITEM_RE = /^(\s*)(?:([-*+])|(\d+)([.)]))(\s\[[ xX]\])?\s+/
+
+// Enter at the end of a list item starts the next one, numbered on from it. On an item with no
+// text yet it ends the list instead, like most editors. Returns null to leave Enter alone.
+export function continueList(value: string, start: number, end: number): TextEdit | null {
+  if (start !== end) return null
+  const from = value.lastIndexOf("\n", start - 1) + 1
+  const before = value.slice(from, start)
+  const m = before.match(LIST_ITEM_RE)
+  if (!m) return null
+  const lineEnd = value.indexOf("\n", start)
+  const after = value.slice(start, lineEnd === -1 ? value.length : lineEnd)
+  if (before.length === m[0].length && after.trim() === "") {
+    return { value: value.slice(0, from) + value.slice(start), selectionStart: from, selectionEnd: from }
+  }
+  const marker = m[2] ?? `${Number(m[3]) + 1}${m[4]}`
+  const inserted = `\n${m[1]}${marker}${m[5] ? " [ ]" : ""} `
+  const at = start + inserted.length
+  return { value: value.slice(0, start) + inserted + value.slice(end), selectionStart: at, selectionEnd: at }
+}
@@ -0,0 +1,53 @@
+import type { Prompt } from "@/lib/types"
+
+// Client for the app/api/prompts route handlers.
+
+const BASE = "/api/prompts"
+
+// What the server is known to hold (a signature per prompt id), so edits made
+// offline can be told apart from remote changes on the next sync.
+export type SyncState = {
+  lastSyncedAt: number
+  known: Record<string, string>
+}
+
+export class RemoteError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = "RemoteError"
+    this.status = status
+  }
+}
+
+async function call<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+    cache: "no-store",
+  })
+  if (res.status === 204) return undefined as T
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok && res.status !== 409) {
+    throw new RemoteError(res.status, body?.error || `Request failed with ${res.status}`)
+  }
+  return { ...body, status: res.status } as T
+}
+
+export function fetchChanges(since: number) {
+  return call<{ prompts: Prompt[]; deleted: string[]; serverTime: number }>(`${BASE}?since=${since}`)
+}
+
+// Resolves with `conflict` set to the server copy when it was edited more recently.
+export async function pushPrompt(prompt: Prompt): Promise<{ conflict: Prompt | null }> {
+  const res = await call<{ prompt: Prompt; status: number }>(`${BASE}/${encodeURIComponent(prompt.id)}`, {
+    method: "PUT",
+    body: JSON.stringify(prompt),
+  })
+  return { conflict: res.status === 409 ? res.prompt : null }
+}
+
+export function removePrompt(id: string) {
+  return call<void>(`${BASE}/${encodeURIComponent(id)}`, { method: "DELETE" })
+}
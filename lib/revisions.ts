@@ -0,0 +1,50 @@
+import type { Prompt, PromptRevision, RevisionField } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+type Snapshot = Pick<Prompt, RevisionField>
+
+const FIELDS: RevisionField[] = ["title", "content", "category", "tags"]
+
+export function changedFields(before: Snapshot, after: Snapshot): RevisionField[] {
+  return FIELDS.filter((f) => {
+    if (f === "tags") return before.tags.join("\u0000") !== after.tags.join("\u0000")
+    return (before[f] || "") !== (after[f] || "")
+  })
+}
+
+function makeRevision(snapshot: Snapshot, author: string, changes: RevisionField[], at = now()): PromptRevision {
+  return {
+    id: uid(),
+    createdAt: at,
+    author,
+    title: snapshot.title,
+    content: snapshot.content,
+    category: snapshot.category,
+    tags: [...snapshot.tags],
+    changes,
+  }
+}
+
+export function initialRevision(prompt: Snapshot, author: string, at?: number) {
+  return makeRevision(prompt, author, [...FIELDS], at)
+}
+
+// Revisions for a prompt, backfilling a baseline for prompts created before history existed.
+export function revisionsOf(prompt: Prompt): PromptRevision[] {
+  if (prompt.revisions && prompt.revisions.length > 0) return prompt.revisions
+  return [{ ...initialRevision(prompt, "unknown", prompt.updatedAt), id: `${prompt.id}-base` }]
+}
+
+// Applies an edit and records it. Returns the prompt unchanged when nothing differs.
+export function revisePrompt(prompt: Prompt, next: Snapshot, author: string, restoredFrom?: string): Prompt {
+  const changes = changedFields(prompt, next)
+  if (changes.length === 0) return prompt
+  const revision = makeRevision(next, author, changes)
+  if (restoredFrom) revision.restoredFrom = restoredFrom
+  return {
+    ...prompt,
+    ...next,
+    updatedAt: revision.createdAt,
+    revisions: [...revisionsOf(prompt), revision],
+  }
+}
@@ -0,0 +1,145 @@
+import { z } from "zod"
+
+const revisionFieldSchema = z.enum(["title", "content", "category", "tags"])
+
+export const promptRevisionSchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.number().int().nonnegative(),
+  author: z.string(),
+  title: z.string(),
+  content: z.string(),
+  category: z.string().nullable(),
+  tags: z.array(z.string()),
+  changes: z.array(revisionFieldSchema),
+  restoredFrom: z.string().optional(),
+})
+
+export const promptRunSchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.number().int().nonnegative(),
+  input: z.string(),
+  output: z.string(),
+  params: z.object({
+    baseUrl: z.string(),
+    model: z.string(),
+    temperature: z.number(),
+    maxTokens: z.number().int(),
+  }),
+  status: z.enum(["done", "stopped", "error"]),
+  error: z.string().optional(),
+  firstTokenMs: z.number().nonnegative().optional(),
+  latencyMs: z.number().nonnegative(),
+  variantId: z.string().optional(),
+  comparisonId: z.string().optional(),
+  rating: z.number().int().min(1).max(5).optional(),
+})
+
+export const promptVariantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  content: z.string(),
+  createdAt: z.number().int().nonnegative(),
+  updatedAt: z.number().int().nonnegative(),
+})
+
+const testAssertionSchema = z.discriminatedUnion("type", [
+  z.object({ id: z.string().min(1), type: z.literal("contains"), value: z.string() }),
+  z.object({ id: z.string().min(1), type: z.literal("regex"), pattern: z.string(), flags: z.string() }),
+  z.object({ id: z.string().min(1), type: z.literal("json-schema"), schema: z.string() }),
+  z.object({ id: z.string().min(1), type: z.literal("max-length"), max: z.number().int().nonnegative() }),
+])
+
+export const promptTestCaseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  values: z.record(z.string()),
+  assertions: z.array(testAssertionSchema),
+  mockOutput: z.string().optional(),
+})
+
+export const testReportSchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.number().int().nonnegative(),
+  revisionId: z.string(),
+  target: z.enum(["mock", "model"]),
+  params: promptRunSchema.shape.params.optional(),
+  results: z.array(
+    z.object({
+      caseId: z.string(),
+      name: z.string(),
+      input: z.string(),
+      output: z.string(),
+      failures: z.array(z.string()),
+      passed: z.boolean(),
+      latencyMs: z.number().nonnegative(),
+    }),
+  ),
+})
+
+export const promptSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().trim().min(1, "Title is required"),
+  content: z.string(),
+  category: z.string().nullable(),
+  tags: z.array(z.string()),
+  favorite: z.boolean(),
+  uses: z.number().int().nonnegative(),
+  lastUsedAt: z.number().int().nonnegative().optional(),
+  createdAt: z.number().int().nonnegative(),
+  updatedAt: z.number().int().nonnegative(),
+  revisions: z.array(promptRevisionSchema).optional(),
+  variants: z.array(promptVariantSchema).optional(),
+  runs: z.array(promptRunSchema).optional(),
+  testCases: z.array(promptTestCaseSchema).optional(),
+  testReports: z.array(testReportSchema).optional(),
+  notesUpdatedAt: z.number().int().nonnegative().optional(),
+  handle: z
+    .string()
+    .regex(/^[a-z0-9][\w.-]*$/i, "Include names may only contain letters, digits, '.', '_' and '-'")
+    .optional(),
+  deletedAt: z.number().int().nonnegative().optional(),
+})
+
+export const smartCollectionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Name is required"),
+  filters: z.object({
+    search: z.string(),
+    category: z.string(),
+    selectedTags: z.array(z.string()),
+    tagMatch: z.enum(["any", "all"]),
+    sort: z.enum(["relevance", "updated", "created", "title", "longest", "shortest", "most-used", "recent"]),
+  }),
+  createdAt: z.number().int().nonnegative(),
+})
+
+const labelStyleSchema = z.object({ color: z.string().optional(), icon: z.string().optional() })
+
+export const labelStylesSchema = z.object({
+  categories: z.record(labelStyleSchema),
+  tags: z.record(labelStyleSchema),
+})
+
+export const exportFileSchema = z.object({
+  version: z.number().int(),
+  exportedAt: z.number().int().nonnegative(),
+  prompts: z.array(promptSchema),
+  categories: z.array(z.string()),
+  tags: z.array(z.string()),
+  collections: z.array(smartCollectionSchema).optional(),
+  labelStyles: labelStylesSchema.optional(),
+})
+
+// Looser shape accepted by bulk import: only prompts are required.
+export const importPayloadSchema = z.object({
+  prompts: z.array(promptSchema),
+  categories: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  collections: z.array(smartCollectionSchema).optional(),
+  labelStyles: labelStylesSchema.optional(),
+  overwrite: z.boolean().optional(),
+})
+
+export function formatZodError(err: z.ZodError) {
+  return err.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+}
@@ -0,0 +1,384 @@
+import { textStats } from "@/lib/tokens"
+import type { Prompt } from "@/lib/types"
+
+// Fuzzy, ranked search over the library. Queries are parsed from the search box:
+//   words            fuzzy-matched against title, tags, category and content (all must match)
+//   "exact phrase"   substring match
+//   -word, -"phrase" exclude prompts containing it
+//   tag:seo          has the tag (-tag:seo: does not)
+//   cat:Coding       in the category or one of its subcategories (-cat: negates)
+//   fav:true         favorites only (fav:false for the rest)
+//   words:>200       content length in words: >N, <N, >=N, <=N, N or N-M (chars: counts characters)
+
+export type Range = [start: number, end: number]
+
+export type LengthBound = { min: number; max: number }
+
+export type SearchQuery = {
+  terms: string[]
+  phrases: string[]
+  exclude: string[]
+  tags: string[]
+  notTags: string[]
+  categories: string[]
+  notCategories: string[]
+  favorite?: boolean
+  words?: LengthBound
+  chars?: LengthBound
+}
+
+export type SearchHit = {
+  prompt: Prompt
+  score: number
+  title: Range[]
+  content: Range[]
+  // Indexes into prompt.tags that matched.
+  tags: number[]
+}
+
+type Field = "title" | "tags" | "category" | "content"
+
+const FIELD_WEIGHT: Record<Field, number> = { title: 4, tags: 3, category: 2, content: 1 }
+
+type Posting = { doc: number; field: Field; range: Range; tag?: number }
+
+type IndexedDoc = {
+  prompt: Prompt
+  title: string
+  content: string
+  category: string
+  tags: string[]
+  words: Set<string>
+  wordCount: number
+  charCount: number
+  postings: [string, Posting][]
+}
+
+export type SearchIndex = {
+  docs: IndexedDoc[]
+  vocab: Map<string, Posting[]>
+}
+
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu
+const QUERY_RE = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi
+
+function tokenize(text: string) {
+  return Array.from(text.matchAll(TOKEN_RE), (m) => ({
+    token: m[0].toLowerCase(),
+    range: [m.index!, m.index! + m[0].length] as Range,
+  }))
+}
+
+function parseBoolean(value: string) {
+  const v = value.toLowerCase()
+  if (["true", "yes", "1"].includes(v)) return true
+  if (["false", "no", "0"].includes(v)) return false
+  return undefined
+}
+
+function parseLength(value: string): LengthBound | undefined {
+  const m = value.match(/^(>=|<=|>|<)?(\d+)(?:-(\d+))?$/)
+  if (!m) return undefined
+  const n = Number(m[2])
+  if (m[3] !== undefined) return m[1] ? undefined : { min: Math.min(n, Number(m[3])), max: Math.max(n, Number(m[3])) }
+  if (m[1] === ">") return { min: n + 1, max: Infinity }
+  if (m[1] === ">=") return { min: n, max: Infinity }
+  if (m[1] === "<") return { min: 0, max: n - 1 }
+  if (m[1] === "<=") return { min: 0, max: n }
+  return { min: n, max: n }
+}
+
+export function parseQuery(input: string): SearchQuery {
+  const query: SearchQuery = {
+    terms: [],
+    phrases: [],
+    exclude: [],
+    tags: [],
+    notTags: [],
+    categories: [],
+    notCategories: [],
+  }
+  for (const m of input.matchAll(QUERY_RE)) {
+    const negated = m[1] === "-"
+    const op = m[2]?.toLowerCase()
+    const quoted = m[3]
+    const value = (quoted ?? m[4] ?? "").trim()
+
+    if (op === "tag" || op === "tags") {
+      if (value) (negated ? query.notTags : query.tags).push(value.toLowerCase())
+      continue
+    }
+    if (op === "cat" || op === "category") {
+      if (value) (negated ? query.notCategories : query.categories).push(value.toLowerCase())
+      continue
+    }
+    if (op === "fav" || op === "favorite") {
+      const fav = parseBoolean(value)
+      if (fav !== undefined) query.favorite = negated ? !fav : fav
+      continue
+    }
+    if (op === "words" || op === "chars") {
+      const bound = parseLength(value)
+      if (bound) {
+        query[op] = bound
+        continue
+      }
+    }
+
+    // Unknown operators are plain text, e.g. `http://...`.
+    const text = op ? `${m[2]}:${value}` : value
+    if (quoted !== undefined && !op) {
+      const phrase = text.toLowerCase().trim()
+      if (phrase) (negated ? query.exclude : query.phrases).push(phrase)
+      continue
+    }
+    for (const { token } of tokenize(text)) (negated ? query.exclude : query.terms).push(token)
+  }
+  return query
+}
+
+export function hasText(query: SearchQuery) {
+  return query.terms.length > 0 || query.phrases.length > 0
+}
+
+export function isEmptyQuery(query: SearchQuery) {
+  return (
+    !hasText(query) &&
+    query.exclude.length === 0 &&
+    query.tags.length === 0 &&
+    query.notTags.length === 0 &&
+    query.categories.length === 0 &&
+    query.notCategories.length === 0 &&
+    query.favorite === undefined &&
+    !query.words &&
+    !query.chars
+  )
+}
+
+// Tokenizing is the expensive part, so it is cached per prompt object; an edit
+// produces a new object and only that prompt is re-read.
+const docCache = new WeakMap<Prompt, Omit<IndexedDoc, "postings"> & { postings: [string, Omit<Posting, "doc">][] }>()
+
+function readDoc(prompt: Prompt) {
+  const cached = docCache.get(prompt)
+  if (cached) return cached
+  const postings: [string, Omit<Posting, "doc">][] = []
+  const add = (field: Field, text: string, tag?: number) => {
+    for (const { token, range } of tokenize(text)) postings.push([token, { field, range, tag }])
+  }
+  add("title", prompt.title)
+  prompt.tags.forEach((t, i) => add("tags", t, i))
+  if (prompt.category) add("category", prompt.category)
+  add("content", prompt.content)
+  const doc = {
+    prompt,
+    title: prompt.title.toLowerCase(),
+    content: prompt.content.toLowerCase(),
+    category: (prompt.category || "").toLowerCase(),
+    tags: prompt.tags.map((t) => t.toLowerCase()),
+    words: new Set(postings.map(([token]) => token)),
+    wordCount: textStats(prompt.content).words,
+    charCount: prompt.content.length,
+    postings,
+  }
+  docCache.set(prompt, doc)
+  return doc
+}
+
+export function buildSearchIndex(prompts: Prompt[]): SearchIndex {
+  const vocab = new Map<string, Posting[]>()
+  const docs = prompts.map((prompt, doc) => {
+    const read = readDoc(prompt)
+    const postings = read.postings.map(([token, p]) => [token, { ...p, doc }] as [string, Posting])
+    for (const [token, posting] of postings) {
+      const list = vocab.get(token)
+      if (list) list.push(posting)
+      else vocab.set(token, [posting])
+    }
+    return { ...read, postings }
+  })
+  return { docs, vocab }
+}
+
+function maxEdits(length: number) {
+  return length <= 3 ? 0 : length <= 6 ? 1 : 2
+}
+
+// Optimal string alignment distance, giving up once it exceeds `limit`.
+function editDistance(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  let prev2: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let best = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1)
+      row.push(d)
+      best = Math.min(best, d)
+    }
+    if (best > limit) return limit + 1
+    prev2 = prev
+    prev = row
+  }
+  return prev[b.length]
+}
+
+// 1 for an exact match, less for prefixes and typos, 0 for no match.
+function matchQuality(term: string, token: string) {
+  if (token === term) return 1
+  if (term.length >= 2 && token.startsWith(term)) return 0.8
+  const limit = maxEdits(term.length)
+  if (limit === 0) return 0
+  const d = editDistance(term, token, limit)
+  return d <= limit ? 0.7 - 0.2 * (d - 1) : 0
+}
+
+function findAll(haystack: string, needle: string): Range[] {
+  const out: Range[] = []
+  if (!needle) return out
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+    out.push([i, i + needle.length])
+  }
+  return out
+}
+
+function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const out: Range[] = []
+  for (const r of sorted) {
+    const last = out[out.length - 1]
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1])
+    else out.push([r[0], r[1]])
+  }
+  return out
+}
+
+function inCategory(category: string, wanted: string) {
+  return category === wanted || category.startsWith(`${wanted}/`)
+}
+
+function within(n: number, bound: LengthBound | undefined) {
+  return !bound || (n >= bound.min && n <= bound.max)
+}
+
+function passesOperators(doc: IndexedDoc, query: SearchQuery) {
+  if (query.favorite !== undefined && doc.prompt.favorite !== query.favorite) return false
+  if (!within(doc.wordCount, query.words) || !within(doc.charCount, query.chars)) return false
+  if (query.tags.some((t) => !doc.tags.includes(t))) return false
+  if (query.notTags.some((t) => doc.tags.includes(t))) return false
+  if (query.categories.length > 0 && !query.categories.some((c) => inCategory(doc.category, c))) return false
+  if (query.notCategories.some((c) => inCategory(doc.category, c))) return false
+  return !query.exclude.some((x) =>
+    /\s/.test(x)
+      ? doc.title.includes(x) || doc.content.includes(x)
+      : doc.words.has(x) || doc.tags.includes(x),
+  )
+}
+
+// Returns the prompts that match, best first. Without free text every prompt
+// that passes the operators is returned with a score of 0.
+export function search(index: SearchIndex, query: SearchQuery): SearchHit[] {
+  const hits: SearchHit[] = []
+  const candidates = index.docs.filter((doc) => passesOperators(doc, query))
+  if (candidates.length === 0) return hits
+
+  // For every term, the best weighted match per document plus all ranges to highlight.
+  const termMatches = query.terms.map((term) => {
+    const best = new Map<number, number>()
+    const postings: Posting[] = []
+    index.vocab.forEach((list, token) => {
+      const quality = matchQuality(term, token)
+      if (quality === 0) return
+      for (const p of list) {
+        const score = quality * FIELD_WEIGHT[p.field]
+        if (score > (best.get(p.doc) ?? 0)) best.set(p.doc, score)
+        postings.push(p)
+      }
+    })
+    return { best, postings }
+  })
+
+  const docIndex = new Map(index.docs.map((doc, i) => [doc, i]))
+  for (const doc of candidates) {
+    const i = docIndex.get(doc)!
+    let score = 0
+    const title: Range[] = []
+    const content: Range[] = []
+    const tags = new Set<number>()
+
+    let matchedAll = true
+    for (const { best, postings } of termMatches) {
+      const s = best.get(i)
+      if (s === undefined) {
+        matchedAll = false
+        break
+      }
+      score += s
+      for (const p of postings) {
+        if (p.doc !== i) continue
+        if (p.field === "title") title.push(p.range)
+        else if (p.field === "content") content.push(p.range)
+        else if (p.field === "tags" && p.tag !== undefined) tags.add(p.tag)
+      }
+    }
+    if (!matchedAll) continue
+
+    for (const phrase of query.phrases) {
+      const inTitle = findAll(doc.title, phrase)
+      const inContent = findAll(doc.content, phrase)
+      const inTags = doc.tags.flatMap((t, n) => (t.includes(phrase) ? [n] : []))
+      const field: Field | null = inTitle.length
+        ? "title"
+        : inTags.length
+          ? "tags"
+          : doc.category.includes(phrase)
+            ? "category"
+            : inContent.length
+              ? "content"
+              : null
+      if (!field) {
+        matchedAll = false
+        break
+      }
+      score += FIELD_WEIGHT[field]
+      title.push(...inTitle)
+      content.push(...inContent)
+      inTags.forEach((n) => tags.add(n))
+    }
+    if (!matchedAll) continue
+
+    hits.push({
+      prompt: doc.prompt,
+      score,
+      title: mergeRanges(title),
+      content: mergeRanges(content),
+      tags: Array.from(tags).sort((a, b) => a - b),
+    })
+  }
+  return hits.sort((a, b) => b.score - a.score)
+}
+
+// A window of `text` around the first highlighted range, with ranges shifted to match.
+export function snippet(text: string, ranges: Range[], radius = 80) {
+  if (ranges.length === 0 || text.length <= radius * 2) return { text, ranges, before: false, after: false }
+  const [first] = ranges
+  let start = Math.max(0, first[0] - radius)
+  let end = Math.min(text.length, start + radius * 2)
+  start = Math.max(0, Math.min(start, end - radius * 2))
+  // Snap to word boundaries so the snippet does not start mid-word.
+  if (start > 0) {
+    const space = text.indexOf(" ", start)
+    if (space !== -1 && space < first[0]) start = space + 1
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end)
+    if (space > first[1]) end = space
+  }
+  const shifted = ranges
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]) => [s - start, e - start] as Range)
+  return { text: text.slice(start, end), ranges: shifted, before: start > 0, after: end < text.length }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { formatZodError } from "@/lib/schema"
+
+export function jsonError(status: number, error: string, details?: string[]) {
+  return NextResponse.json(details ? { error, details } : { error }, { status })
+}
+
+// Parses and validates a JSON body; returns either the data or a ready-made 400 response.
+export async function readBody<S extends z.ZodTypeAny>(
+  req: Request,
+  schema: S,
+): Promise<{ data: z.infer<S>; response?: undefined } | { data?: undefined; response: NextResponse }> {
+  let raw: unknown
+  try {
+    raw = await req.json()
+  } catch {
+    return { response: jsonError(400, "Request body must be valid JSON") }
+  }
+  const parsed = schema.safeParse(raw)
+  if (!parsed.success) return { response: jsonError(400, "Validation failed", formatZodError(parsed.error)) }
+  return { data: parsed.data }
+}
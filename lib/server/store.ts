@@ -0,0 +1,180 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { mergeNotes } from "@/lib/sync"
+import type { ExportFile, Prompt } from "@/lib/types"
+
+// File-backed library for the REST API. Every write stamps the record with the
+// server clock so clients can pull "everything changed since" without trusting
+// their own clocks.
+
+type StoredRecord = {
+  prompt: Prompt
+  syncedAt: number
+}
+
+type LibraryFile = {
+  version: 1
+  records: Record<string, StoredRecord>
+  // Deleted ids with their deletion time, so offline clients learn about deletes.
+  tombstones: Record<string, number>
+  categories: string[]
+  tags: string[]
+}
+
+export type ChangesSince = {
+  prompts: Prompt[]
+  deleted: string[]
+  serverTime: number
+}
+
+export type PutResult = { ok: true; prompt: Prompt } | { ok: false; current: Prompt }
+
+const DATA_FILE = process.env.PROMPTS_DATA_FILE || path.join(process.cwd(), ".data", "prompts.json")
+
+function emptyLibrary(): LibraryFile {
+  return { version: 1, records: {}, tombstones: {}, categories: [], tags: [] }
+}
+
+async function readLibrary(): Promise<LibraryFile> {
+  try {
+    const raw = await fs.readFile(DATA_FILE, "utf8")
+    return { ...emptyLibrary(), ...(JSON.parse(raw) as Partial<LibraryFile>) } as LibraryFile
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return emptyLibrary()
+    throw err
+  }
+}
+
+async function writeLibrary(lib: LibraryFile) {
+  await fs.mkdir(path.dirname(DATA_FILE), { recursive: true })
+  // Write to a temp file first so a crash never leaves a half-written library.
+  const tmp = `${DATA_FILE}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(lib, null, 2), "utf8")
+  await fs.rename(tmp, DATA_FILE)
+}
+
+// Serializes read-modify-write cycles within this server process.
+let queue: Promise<unknown> = Promise.resolve()
+
+function mutate<T>(fn: (lib: LibraryFile) => T | Promise<T>): Promise<T> {
+  const run = queue.then(async () => {
+    const lib = await readLibrary()
+    const result = await fn(lib)
+    await writeLibrary(lib)
+    return result
+  })
+  queue = run.catch(() => {})
+  return run
+}
+
+// Reads in the same queue, so no write is half done while it looks at the library.
+function view<T>(fn: (lib: LibraryFile) => T): Promise<T> {
+  const run = queue.then(async () => fn(await readLibrary()))
+  queue = run.catch(() => {})
+  return run
+}
+
+function mergeUnique(a: string[], b: string[]) {
+  return Array.from(new Set([...a, ...b]))
+}
+
+export async function listPrompts(): Promise<Prompt[]> {
+  const lib = await readLibrary()
+  return Object.values(lib.records)
+    .map((r) => r.prompt)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+// Inclusive on `since` so writes landing in the same millisecond are never missed;
+// clients re-applying an unchanged record is harmless. `serverTime` is taken inside the queue:
+// every write stamped before it is on disk, and every later one is stamped after it.
+export function changesSince(since: number): Promise<ChangesSince> {
+  return view((lib) => ({
+    prompts: Object.values(lib.records)
+      .filter((r) => r.syncedAt >= since)
+      .map((r) => r.prompt),
+    deleted: Object.entries(lib.tombstones)
+      .filter(([, at]) => at >= since)
+      .map(([id]) => id),
+    serverTime: Date.now(),
+  }))
+}
+
+export async function getPrompt(id: string): Promise<Prompt | null> {
+  const lib = await readLibrary()
+  return lib.records[id]?.prompt ?? null
+}
+
+export function createPrompt(prompt: Prompt): Promise<Prompt | null> {
+  return mutate((lib) => {
+    if (lib.records[prompt.id]) return null
+    lib.records[prompt.id] = { prompt, syncedAt: Date.now() }
+    delete lib.tombstones[prompt.id]
+    return prompt
+  })
+}
+
+// Upserts unless the stored copy was edited more recently than the incoming one.
+export function putPrompt(prompt: Prompt): Promise<PutResult> {
+  return mutate<PutResult>((lib) => {
+    const existing = lib.records[prompt.id]
+    if (existing && existing.prompt.updatedAt > prompt.updatedAt) {
+      return { ok: false, current: existing.prompt }
+    }
+    // Runs and test reports recorded on another device are kept, even if this copy lacks them.
+    const stored = existing ? mergeNotes(prompt, existing.prompt) : prompt
+    lib.records[prompt.id] = { prompt: stored, syncedAt: Date.now() }
+    delete lib.tombstones[prompt.id]
+    return { ok: true, prompt: stored }
+  })
+}
+
+export function deletePrompt(id: string): Promise<boolean> {
+  return mutate((lib) => {
+    const existed = !!lib.records[id]
+    delete lib.records[id]
+    lib.tombstones[id] = Date.now()
+    return existed
+  })
+}
+
+export function importLibrary(input: {
+  prompts: Prompt[]
+  categories?: string[]
+  tags?: string[]
+  overwrite?: boolean
+}): Promise<{ created: number; updated: number; skipped: number }> {
+  return mutate((lib) => {
+    const result = { created: 0, updated: 0, skipped: 0 }
+    const at = Date.now()
+    for (const p of input.prompts) {
+      const existing = lib.records[p.id]
+      if (existing && !input.overwrite) {
+        result.skipped++
+        continue
+      }
+      lib.records[p.id] = { prompt: p, syncedAt: at }
+      delete lib.tombstones[p.id]
+      if (existing) result.updated++
+      else result.created++
+    }
+    if (input.categories) lib.categories = mergeUnique(lib.categories, input.categories)
+    if (input.tags) lib.tags = mergeUnique(lib.tags, input.tags)
+    return result
+  })
+}
+
+export async function exportLibrary(): Promise<ExportFile> {
+  const lib = await readLibrary()
+  const prompts = Object.values(lib.records).map((r) => r.prompt)
+  return {
+    version: 2,
+    exportedAt: Date.now(),
+    prompts,
+    categories: mergeUnique(
+      lib.categories,
+      prompts.flatMap((p) => (p.category ? [p.category] : [])),
+    ),
+    tags: mergeUnique(lib.tags, prompts.flatMap((p) => p.tags)),
+  }
+}
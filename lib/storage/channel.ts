@@ -0,0 +1,55 @@
+import type { LibraryMeta } from "@/lib/storage"
+import type { Prompt, Workspace } from "@/lib/types"
+
+// Cross-tab notifications about writes that already reached IndexedDB. Library
+// messages name their workspace; tabs showing another workspace ignore them.
+
+export type LibraryMessage =
+  | { type: "prompts"; workspace: string; puts: Prompt[]; deletes: string[] }
+  | { [K in keyof LibraryMeta]: { type: "meta"; workspace: string; key: K; value: LibraryMeta[K] } }[keyof LibraryMeta]
+  | { type: "workspaces"; workspaces: Workspace[] }
+
+const CHANNEL_NAME = "prompt-manager"
+// Fallback for browsers without BroadcastChannel: a localStorage key whose `storage` event carries the message.
+const FALLBACK_KEY = "pm_broadcast"
+
+let channel: BroadcastChannel | null = null
+
+function getChannel() {
+  if (typeof BroadcastChannel === "undefined") return null
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME)
+  return channel
+}
+
+export function broadcast(message: LibraryMessage) {
+  try {
+    const ch = getChannel()
+    if (ch) {
+      ch.postMessage(message)
+    } else if (typeof localStorage !== "undefined") {
+      localStorage.setItem(FALLBACK_KEY, JSON.stringify({ message, nonce: Math.random() }))
+      localStorage.removeItem(FALLBACK_KEY)
+    }
+  } catch {
+    // Other tabs pick the change up on their next load.
+  }
+}
+
+export function subscribe(handler: (message: LibraryMessage) => void) {
+  const ch = getChannel()
+  if (ch) {
+    const onMessage = (e: MessageEvent<LibraryMessage>) => handler(e.data)
+    ch.addEventListener("message", onMessage)
+    return () => ch.removeEventListener("message", onMessage)
+  }
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== FALLBACK_KEY || !e.newValue) return
+    try {
+      handler(JSON.parse(e.newValue).message as LibraryMessage)
+    } catch {
+      // ignore malformed payloads
+    }
+  }
+  window.addEventListener("storage", onStorage)
+  return () => window.removeEventListener("storage", onStorage)
+}
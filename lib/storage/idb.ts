@@ -0,0 +1,100 @@
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces"
+
+const DB_NAME = "prompt-manager"
+// Structural version (object stores only). Data changes go through ./migrations instead.
+const DB_VERSION = 1
+
+export const STORES = {
+  prompts: "prompts",
+  meta: "meta",
+} as const
+
+export class StorageError extends Error {
+  operation: string
+
+  constructor(operation: string, message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "StorageError"
+    this.operation = operation
+  }
+}
+
+function describe(err: unknown) {
+  if (err instanceof DOMException && err.name === "QuotaExceededError") {
+    return "Browser storage is full. Export your library and free up some space."
+  }
+  if (err instanceof Error && err.message) return err.message
+  return "Unknown storage error"
+}
+
+export function toStorageError(operation: string, err: unknown) {
+  if (err instanceof StorageError) return err
+  return new StorageError(operation, describe(err), { cause: err })
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// Must be called right after creating the transaction, before it can complete.
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"))
+  })
+}
+
+// Each workspace is its own database; the default one keeps the original name.
+function dbName(workspace: string) {
+  return workspace === DEFAULT_WORKSPACE_ID ? DB_NAME : `${DB_NAME}:${workspace}`
+}
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>()
+
+export function openDb(workspace: string = DEFAULT_WORKSPACE_ID): Promise<IDBDatabase> {
+  const cached = dbPromises.get(workspace)
+  if (cached) return cached
+  const promise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new StorageError("open", "IndexedDB is not available in this browser. Changes will not be saved."))
+      return
+    }
+    const req = indexedDB.open(dbName(workspace), DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(STORES.prompts)) db.createObjectStore(STORES.prompts, { keyPath: "id" })
+      if (!db.objectStoreNames.contains(STORES.meta)) db.createObjectStore(STORES.meta)
+    }
+    req.onsuccess = () => {
+      const db = req.result
+      // Let another tab delete or upgrade this database; the next access reopens it.
+      db.onversionchange = () => {
+        db.close()
+        dbPromises.delete(workspace)
+      }
+      resolve(db)
+    }
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => reject(new Error("Database upgrade is blocked by another open tab"))
+  }).catch((err) => {
+    dbPromises.delete(workspace)
+    throw toStorageError("open", err)
+  })
+  dbPromises.set(workspace, promise)
+  return promise
+}
+
+export async function deleteDb(workspace: string) {
+  const cached = dbPromises.get(workspace)
+  dbPromises.delete(workspace)
+  if (cached) (await cached.catch(() => null))?.close()
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(dbName(workspace))
+    req.onsuccess = () => resolve()
+    req.onerror = () => reject(toStorageError("delete workspace", req.error))
+  })
+}
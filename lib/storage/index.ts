@@ -0,0 +1,123 @@
+import { deleteDb, openDb, request, STORES, toStorageError, transactionDone } from "@/lib/storage/idb"
+import { runMigrations } from "@/lib/storage/migrations"
+import type { SyncState } from "@/lib/remote"
+import type {
+  Chain,
+  ChainRun,
+  LabelStyles,
+  LlmSettings,
+  Prompt,
+  SmartCollection,
+  TokenSettings,
+  UsageEvent,
+  VariableValues,
+  Workspace,
+} from "@/lib/types"
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces"
+
+export { StorageError } from "@/lib/storage/idb"
+
+export type LibraryMeta = {
+  categories: string[]
+  tags: string[]
+  collections: SmartCollection[]
+  labelStyles: LabelStyles
+  chains: Chain[]
+  chainRuns: ChainRun[]
+  tokenSettings: TokenSettings
+  llmSettings: LlmSettings
+  variableValues: VariableValues
+  usageEvents: UsageEvent[]
+  author: string
+  syncMode: "local" | "remote"
+  sync: SyncState
+}
+
+export type LibrarySnapshot = {
+  prompts: Prompt[]
+  meta: Partial<LibraryMeta>
+}
+
+// Opens the workspace database, brings stored data up to the current schema and reads everything.
+export async function loadLibrary(workspace: string): Promise<LibrarySnapshot> {
+  const db = await openDb(workspace)
+  try {
+    await runMigrations(db)
+    const tx = db.transaction([STORES.prompts, STORES.meta], "readonly")
+    const finished = transactionDone(tx)
+    const metaStore = tx.objectStore(STORES.meta)
+    const [prompts, keys, values] = await Promise.all([
+      request(tx.objectStore(STORES.prompts).getAll() as IDBRequest<Prompt[]>),
+      request(metaStore.getAllKeys()),
+      request(metaStore.getAll()),
+    ])
+    await finished
+    const meta: Record<string, unknown> = {}
+    keys.forEach((k, i) => (meta[String(k)] = values[i]))
+    return { prompts, meta: meta as Partial<LibraryMeta> }
+  } catch (err) {
+    throw toStorageError("load", err)
+  }
+}
+
+// Writes only the given records, so a favorite toggle does not rewrite the whole library.
+export async function writePrompts(workspace: string, puts: Prompt[], deletes: string[] = []) {
+  if (puts.length === 0 && deletes.length === 0) return
+  try {
+    const db = await openDb(workspace)
+    const tx = db.transaction(STORES.prompts, "readwrite")
+    const finished = transactionDone(tx)
+    const store = tx.objectStore(STORES.prompts)
+    for (const p of puts) store.put(p)
+    for (const id of deletes) store.delete(id)
+    await finished
+  } catch (err) {
+    throw toStorageError("save prompts", err)
+  }
+}
+
+export async function writeMeta<K extends keyof LibraryMeta>(workspace: string, key: K, value: LibraryMeta[K]) {
+  try {
+    const db = await openDb(workspace)
+    const tx = db.transaction(STORES.meta, "readwrite")
+    const finished = transactionDone(tx)
+    tx.objectStore(STORES.meta).put(value, key)
+    await finished
+  } catch (err) {
+    throw toStorageError(`save ${key}`, err)
+  }
+}
+
+// The workspace list lives in the default database, which every install has.
+const WORKSPACES_KEY = "workspaces"
+
+export async function loadWorkspaces(): Promise<Workspace[] | undefined> {
+  try {
+    const db = await openDb(DEFAULT_WORKSPACE_ID)
+    await runMigrations(db)
+    const tx = db.transaction(STORES.meta, "readonly")
+    const finished = transactionDone(tx)
+    const list = await request(tx.objectStore(STORES.meta).get(WORKSPACES_KEY) as IDBRequest<Workspace[] | undefined>)
+    await finished
+    return list
+  } catch (err) {
+    throw toStorageError("load workspaces", err)
+  }
+}
+
+export async function writeWorkspaces(list: Workspace[]) {
+  try {
+    const db = await openDb(DEFAULT_WORKSPACE_ID)
+    const tx = db.transaction(STORES.meta, "readwrite")
+    const finished = transactionDone(tx)
+    tx.objectStore(STORES.meta).put(list, WORKSPACES_KEY)
+    await finished
+  } catch (err) {
+    throw toStorageError("save workspaces", err)
+  }
+}
+
+export async function deleteWorkspaceData(workspace: string) {
+  if (workspace === DEFAULT_WORKSPACE_ID) return
+  await deleteDb(workspace)
+}
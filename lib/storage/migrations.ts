@@ -0,0 +1,118 @@
+import { upgradeCategoryFilter } from "@/lib/categories"
+import { request, STORES, StorageError, transactionDone } from "@/lib/storage/idb"
+
+type MigrationContext = {
+  prompts: IDBObjectStore
+  meta: IDBObjectStore
+}
+
+type Migration = {
+  version: number
+  description: string
+  // Runs inside a single readwrite transaction; only await IndexedDB requests here.
+  up: (ctx: MigrationContext) => void | Promise<void>
+  // Side effects outside IndexedDB, run once the transaction has committed.
+  afterCommit?: () => void
+}
+
+const LEGACY_KEYS = {
+  prompts: "pm_prompts_v1",
+  categories: "pm_categories_v1",
+  tags: "pm_tags_v1",
+  variableValues: "pm_variable_values_v1",
+  author: "pm_author_v1",
+} as const
+
+// Keys that held something other than JSON. They are left in localStorage so nothing is lost.
+const unreadableKeys = new Set<string>()
+
+function readLegacy<T>(key: string, fallback: T, check: (v: unknown) => boolean): T {
+  const raw = localStorage.getItem(key)
+  if (raw === null) return fallback
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    unreadableKeys.add(key)
+    console.warn(`Skipped legacy localStorage key "${key}": its value is not valid JSON`)
+    return fallback
+  }
+  return check(parsed) ? (parsed as T) : fallback
+}
+
+const isObject = (v: unknown) => !!v && typeof v === "object" && !Array.isArray(v)
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Import the library from the legacy pm_*_v1 localStorage keys",
+    up({ prompts, meta }) {
+      if (typeof localStorage === "undefined") return
+      const legacyPrompts = readLegacy<unknown[]>(LEGACY_KEYS.prompts, [], Array.isArray)
+      for (const p of legacyPrompts) {
+        if (isObject(p) && typeof (p as { id?: unknown }).id === "string") prompts.put(p)
+      }
+      meta.put(readLegacy(LEGACY_KEYS.categories, [], Array.isArray), "categories")
+      meta.put(readLegacy(LEGACY_KEYS.tags, [], Array.isArray), "tags")
+      meta.put(readLegacy(LEGACY_KEYS.variableValues, {}, isObject), "variableValues")
+      meta.put(localStorage.getItem(LEGACY_KEYS.author) || "", "author")
+    },
+    afterCommit() {
+      if (typeof localStorage === "undefined") return
+      for (const key of Object.values(LEGACY_KEYS)) {
+        if (!unreadableKeys.has(key)) localStorage.removeItem(key)
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Store the all/uncategorized filters of smart collections as values no category can take",
+    async up({ meta }) {
+      const collections = await request(meta.get("collections") as IDBRequest<unknown>)
+      if (!Array.isArray(collections)) return
+      const upgraded = collections.map((c) => {
+        const filters = isObject(c) ? (c as { filters?: unknown }).filters : undefined
+        if (!isObject(filters) || typeof (filters as { category?: unknown }).category !== "string") return c
+        return { ...c, filters: upgradeCategoryFilter(filters as { category: string }) }
+      })
+      meta.put(upgraded, "collections")
+    },
+  },
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+export async function runMigrations(db: IDBDatabase) {
+  const current = (await readSchemaVersion(db)) ?? 0
+  if (current > SCHEMA_VERSION) {
+    throw new StorageError(
+      "migrate",
+      `Stored library uses schema v${current}, newer than this app supports (v${SCHEMA_VERSION}). Please reload the latest version.`,
+    )
+  }
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue
+    const tx = db.transaction([STORES.prompts, STORES.meta], "readwrite")
+    const finished = transactionDone(tx)
+    try {
+      await migration.up({ prompts: tx.objectStore(STORES.prompts), meta: tx.objectStore(STORES.meta) })
+      tx.objectStore(STORES.meta).put(migration.version, "schemaVersion")
+    } catch (err) {
+      tx.abort()
+      finished.catch(() => {})
+      throw new StorageError("migrate", `Migration v${migration.version} failed: ${migration.description}`, {
+        cause: err,
+      })
+    }
+    await finished
+    migration.afterCommit?.()
+  }
+}
+
+async function readSchemaVersion(db: IDBDatabase) {
+  const tx = db.transaction(STORES.meta, "readonly")
+  const finished = transactionDone(tx)
+  const version = await request(tx.objectStore(STORES.meta).get("schemaVersion") as IDBRequest<number | undefined>)
+  await finished
+  return version
+}
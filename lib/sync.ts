@@ -0,0 +1,45 @@
+import { TEST_REPORT_LIMIT } from "@/lib/evals"
+import { PROMPT_RUN_LIMIT } from "@/lib/llm"
+import type { Prompt, PromptRun } from "@/lib/types"
+
+// Merges by id, newest first, capped like the lists themselves are.
+function union<T extends { id: string; createdAt: number }>(mine: T[], theirs: T[], limit: number) {
+  const ids = new Set(mine.map((x) => x.id))
+  const added = theirs.filter((x) => !ids.has(x.id))
+  if (added.length === 0) return mine
+  return [...mine, ...added].sort((a, b) => b.createdAt - a.createdAt).slice(0, limit)
+}
+
+// Copy counts, runs, their ratings and test reports don't bump updatedAt, so whichever copy of a
+// prompt wins a sync, the notes recorded on the other copy are carried over into it. Returns
+// `base` itself when `other` adds nothing.
+export function mergeNotes(base: Prompt, other: Prompt): Prompt {
+  const variants = new Set(base.variants?.map((v) => v.id))
+  // Runs of a variant deleted on the winning side stay deleted.
+  const theirRuns = (other.runs || []).filter((r) => !r.variantId || variants.has(r.variantId))
+  const mine = base.runs || []
+  let runs: PromptRun[] = union(mine, theirRuns, PROMPT_RUN_LIMIT)
+  // A run on both sides takes the rating of whichever copy was rated last.
+  if ((other.notesUpdatedAt || 0) > (base.notesUpdatedAt || 0)) {
+    const ratings = new Map(theirRuns.map((r) => [r.id, r.rating]))
+    if (runs.some((r) => ratings.has(r.id) && ratings.get(r.id) !== r.rating)) {
+      runs = runs.map((r) => (ratings.has(r.id) ? { ...r, rating: ratings.get(r.id) } : r))
+    }
+  }
+  const myReports = base.testReports || []
+  const testReports = union(myReports, other.testReports || [], TEST_REPORT_LIMIT)
+  const notesUpdatedAt = Math.max(base.notesUpdatedAt || 0, other.notesUpdatedAt || 0) || undefined
+  // Counts only go up, so the higher one has seen more copies.
+  const uses = Math.max(base.uses, other.uses)
+  const lastUsedAt = Math.max(base.lastUsedAt || 0, other.lastUsedAt || 0) || undefined
+  if (
+    runs === mine &&
+    testReports === myReports &&
+    notesUpdatedAt === base.notesUpdatedAt &&
+    uses === base.uses &&
+    lastUsedAt === base.lastUsedAt
+  ) {
+    return base
+  }
+  return { ...base, runs, testReports, notesUpdatedAt, uses, lastUsedAt }
+}
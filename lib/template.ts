@@ -0,0 +1,53 @@
+import type { PromptVariable } from "@/lib/types"
+
+// Supported placeholder forms:
+//   {{name}}                      required
+//   {{name?}}                     optional, renders empty when blank
+//   {{name=default}}              falls back to the default when blank
+//   {{name=default # description}} any of the above plus a help text
+const VARIABLE_RE = /\{\{\s*([A-Za-z_][\w.-]*)\s*(\?)?\s*(?:=\s*([^#}]*?))?\s*(?:#\s*([^}]*?))?\s*\}\}/g
+
+export function parseVariables(content: string): PromptVariable[] {
+  const byName = new Map<string, PromptVariable>()
+  for (const m of content.matchAll(VARIABLE_RE)) {
+    const [, name, optional, defaultValue, description] = m
+    const existing = byName.get(name)
+    if (existing) {
+      // Later occurrences can only fill in what the first one left out.
+      if (existing.defaultValue === undefined && defaultValue !== undefined) existing.defaultValue = defaultValue
+      if (!existing.description && description) existing.description = description
+      if (optional || defaultValue !== undefined) existing.required = false
+      continue
+    }
+    byName.set(name, {
+      name,
+      defaultValue,
+      description: description || undefined,
+      required: !optional && defaultValue === undefined,
+    })
+  }
+  return Array.from(byName.values())
+}
+
+export function hasVariables(content: string) {
+  VARIABLE_RE.lastIndex = 0
+  return VARIABLE_RE.test(content)
+}
+
+export function resolveValue(variable: PromptVariable, values: Record<string, string>) {
+  const v = values[variable.name]
+  if (v !== undefined && v.trim() !== "") return v
+  return variable.defaultValue ?? ""
+}
+
+export function missingRequired(variables: PromptVariable[], values: Record<string, string>) {
+  return variables.filter((v) => v.required && resolveValue(v, values).trim() === "").map((v) => v.name)
+}
+
+export function renderTemplate(content: string, values: Record<string, string>) {
+  const variables = new Map(parseVariables(content).map((v) => [v.name, v]))
+  return content.replace(VARIABLE_RE, (_match, name: string) => {
+    const variable = variables.get(name)
+    return variable ? resolveValue(variable, values) : ""
+  })
+}
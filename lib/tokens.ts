@@ -0,0 +1,104 @@
+import type { ModelPrice, TokenizerId, TokenSettings } from "@/lib/types"
+import { uid } from "@/lib/utils"
+
+export type TokenCounter = (text: string) => number
+
+export const TOKENIZERS: { id: TokenizerId; name: string; models: string }[] = [
+  { id: "cl100k", name: "cl100k_base", models: "GPT-4, GPT-3.5" },
+  { id: "o200k", name: "o200k_base", models: "GPT-4o, GPT-4.1, o-series" },
+]
+
+// Each encoding is a megabyte or two of ranks, so it is only fetched once something needs a count.
+// Special-token markers such as <|endoftext|> in a prompt are counted as plain text.
+const LOADERS: Record<TokenizerId, () => Promise<TokenCounter>> = {
+  cl100k: () =>
+    import("gpt-tokenizer/encoding/cl100k_base").then(
+      (m) => (text: string) => m.countTokens(text, { disallowedSpecial: new Set() }),
+    ),
+  o200k: () =>
+    import("gpt-tokenizer/encoding/o200k_base").then(
+      (m) => (text: string) => m.countTokens(text, { disallowedSpecial: new Set() }),
+    ),
+}
+
+const loading = new Map<TokenizerId, Promise<TokenCounter>>()
+const CACHE_LIMIT = 2000
+
+// Re-renders ask for the same texts over and over; counts are remembered per text.
+function cached(count: TokenCounter): TokenCounter {
+  const cache = new Map<string, number>()
+  return (text) => {
+    let n = cache.get(text)
+    if (n === undefined) {
+      if (cache.size >= CACHE_LIMIT) cache.clear()
+      n = count(text)
+      cache.set(text, n)
+    }
+    return n
+  }
+}
+
+export function loadTokenizer(id: TokenizerId) {
+  let pending = loading.get(id)
+  if (!pending) {
+    pending = LOADERS[id]().then(cached)
+    // A failed chunk load can be retried on the next call.
+    pending.catch(() => loading.delete(id))
+    loading.set(id, pending)
+  }
+  return pending
+}
+
+export function textStats(text: string) {
+  const trimmed = text.trim()
+  return { characters: text.length, words: trimmed ? trimmed.split(/\s+/).length : 0 }
+}
+
+// Published list prices for input tokens at the time of writing; users keep them current in settings.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { id: "gpt-4o", name: "GPT-4o", tokenizer: "o200k", inputPerMillion: 2.5 },
+  { id: "gpt-4o-mini", name: "GPT-4o mini", tokenizer: "o200k", inputPerMillion: 0.15 },
+  { id: "gpt-4.1", name: "GPT-4.1", tokenizer: "o200k", inputPerMillion: 2 },
+  { id: "gpt-4.1-mini", name: "GPT-4.1 mini", tokenizer: "o200k", inputPerMillion: 0.4 },
+  { id: "gpt-4-turbo", name: "GPT-4 Turbo", tokenizer: "cl100k", inputPerMillion: 10 },
+  { id: "gpt-3.5-turbo", name: "GPT-3.5 Turbo", tokenizer: "cl100k", inputPerMillion: 0.5 },
+]
+
+export const DEFAULT_TOKEN_SETTINGS: TokenSettings = { modelId: "gpt-4o", prices: DEFAULT_MODEL_PRICES }
+
+export function createModelPrice(): ModelPrice {
+  return { id: uid(), name: "", tokenizer: "o200k", inputPerMillion: 0 }
+}
+
+// Stored settings may predate a tokenizer or have lost their selected model; fall back to something usable.
+export function normalizeTokenSettings(settings: Partial<TokenSettings> | undefined): TokenSettings {
+  const ids = new Set(TOKENIZERS.map((t) => t.id))
+  const stored = settings?.prices
+  const prices = Array.isArray(stored)
+    ? stored.filter(
+        (p) => p && p.name && ids.has(p.tokenizer) && Number.isFinite(p.inputPerMillion) && p.inputPerMillion >= 0,
+      )
+    : DEFAULT_MODEL_PRICES
+  const modelId = prices.some((p) => p.id === settings?.modelId) ? settings!.modelId! : prices[0]?.id || ""
+  return { modelId, prices }
+}
+
+export function selectedModel(settings: TokenSettings) {
+  return settings.prices.find((p) => p.id === settings.modelId) || null
+}
+
+export function estimateCost(tokens: number, price: ModelPrice) {
+  return (tokens / 1_000_000) * price.inputPerMillion
+}
+
+// Prompt-sized costs are fractions of a cent, so small amounts keep more digits.
+export function formatCost(dollars: number) {
+  if (dollars === 0) return "$0"
+  if (dollars < 0.0001) return "<$0.0001"
+  if (dollars < 0.01) return `$${dollars.toFixed(4)}`
+  return `$${dollars.toFixed(dollars < 1 ? 3 : 2)}`
+}
+
+export function formatCount(n: number) {
+  return n.toLocaleString()
+}
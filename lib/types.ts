@@ -0,0 +1,235 @@
+export type Prompt = {
+  id: string
+  title: string
+  content: string
+  category: string | null
+  tags: string[]
+  favorite: boolean
+  uses: number
+  // Last copy; unset for prompts never copied since it was first recorded.
+  lastUsedAt?: number
+  createdAt: number
+  updatedAt: number
+  revisions?: PromptRevision[]
+  // Include name, so other prompts can pull this one in with `{{> handle}}`.
+  handle?: string
+  // Alternative wordings of `content`, compared side by side before one is promoted.
+  variants?: PromptVariant[]
+  // Playground and comparison runs against a model, newest first.
+  runs?: PromptRun[]
+  // Regression suite: inputs with checks on the answer, and the reports of running it, newest first.
+  testCases?: PromptTestCase[]
+  testReports?: TestReport[]
+  // Last run, rating or test report. These notes leave updatedAt alone, but still have to reach other devices.
+  notesUpdatedAt?: number
+  // Set while the prompt sits in the trash.
+  deletedAt?: number
+}
+
+export type ExportFile = {
+  version: number
+  exportedAt: number
+  prompts: Prompt[]
+  categories: string[]
+  tags: string[]
+  collections?: SmartCollection[]
+  labelStyles?: LabelStyles
+}
+
+// Badge color and icon for a category or tag; both are keys into the palettes in components/label-badge.
+export type LabelStyle = {
+  color?: string
+  icon?: string
+}
+
+export type LabelStyles = {
+  categories: Record<string, LabelStyle>
+  tags: Record<string, LabelStyle>
+}
+
+export type SortOrder = "relevance" | "updated" | "created" | "title" | "longest" | "shortest" | "most-used" | "recent"
+
+// The filter bar state, as saved in a smart collection.
+export type SavedFilters = {
+  search: string
+  // A category path, or ALL_CATEGORIES / UNCATEGORIZED from lib/categories.
+  category: string
+  selectedTags: string[]
+  tagMatch: "any" | "all"
+  sort: SortOrder
+}
+
+// One copy of a prompt, logged for the analytics panel alongside the `uses` counter.
+export type UsageEvent = {
+  at: number
+  promptId: string
+}
+
+// A named filter combination shown in the sidebar; its prompts are computed live.
+export type SmartCollection = {
+  id: string
+  name: string
+  filters: SavedFilters
+  createdAt: number
+}
+
+// A separate library with its own prompts, categories, tags and settings.
+export type Workspace = {
+  id: string
+  name: string
+  createdAt: number
+}
+
+// One prompt in a chain. `inputs` maps a variable of the prompt to the earlier step
+// whose pasted output fills it; unmapped variables are filled in by hand.
+export type ChainStep = {
+  id: string
+  promptId: string
+  inputs: Record<string, string>
+}
+
+export type Chain = {
+  id: string
+  name: string
+  steps: ChainStep[]
+  createdAt: number
+  updatedAt: number
+}
+
+export type ChainRunStep = {
+  stepId: string
+  promptId: string
+  title: string
+  // The rendered text that was copied, and what the model answered.
+  input: string
+  output: string
+}
+
+// Transcript of one pass through a chain.
+export type ChainRun = {
+  id: string
+  chainId: string
+  startedAt: number
+  finishedAt?: number
+  steps: ChainRunStep[]
+}
+
+export type PromptVariant = {
+  id: string
+  name: string
+  content: string
+  createdAt: number
+  updatedAt: number
+}
+
+// Where playground runs go: any server speaking the OpenAI chat completions API, plus the last used parameters.
+export type LlmSettings = {
+  baseUrl: string
+  apiKey: string
+  model: string
+  temperature: number
+  maxTokens: number
+}
+
+export type PromptRunParams = Pick<LlmSettings, "baseUrl" | "model" | "temperature" | "maxTokens">
+
+// One playground run. Latencies are in milliseconds from sending the request.
+export type PromptRun = {
+  id: string
+  createdAt: number
+  input: string
+  output: string
+  params: PromptRunParams
+  status: "done" | "stopped" | "error"
+  error?: string
+  firstTokenMs?: number
+  latencyMs: number
+  // Set for runs of a variant rather than the main content.
+  variantId?: string
+  // Shared by the runs a comparison started together, all with the same input values.
+  comparisonId?: string
+  // 1 to 5, given in the comparison view.
+  rating?: number
+}
+
+// A check on a test case's answer. JSON schemas are kept as typed, so a half-written one survives a save.
+export type TestAssertion =
+  | { id: string; type: "contains"; value: string }
+  | { id: string; type: "regex"; pattern: string; flags: string }
+  | { id: string; type: "json-schema"; schema: string }
+  | { id: string; type: "max-length"; max: number }
+
+export type TestAssertionType = TestAssertion["type"]
+
+export type PromptTestCase = {
+  id: string
+  name: string
+  values: Record<string, string>
+  assertions: TestAssertion[]
+  // What the mock model answers; it echoes the filled-in prompt when unset.
+  mockOutput?: string
+}
+
+export type TestCaseResult = {
+  caseId: string
+  name: string
+  input: string
+  output: string
+  // Why each failed assertion failed, plus missing values or a request error.
+  failures: string[]
+  passed: boolean
+  latencyMs: number
+}
+
+// One pass of the suite over the prompt as it stood at revision `revisionId`.
+export type TestReport = {
+  id: string
+  createdAt: number
+  revisionId: string
+  target: "mock" | "model"
+  params?: PromptRunParams
+  results: TestCaseResult[]
+}
+
+// Tokenizers bundled for estimates; lib/tokens maps them to their encodings.
+export type TokenizerId = "cl100k" | "o200k"
+
+// Input price of one model, in dollars per million tokens.
+export type ModelPrice = {
+  id: string
+  name: string
+  tokenizer: TokenizerId
+  inputPerMillion: number
+}
+
+// The price table plus the model whose count and cost the cards show.
+export type TokenSettings = {
+  modelId: string
+  prices: ModelPrice[]
+}
+
+// A `{{name}}` placeholder found in prompt content.
+export type PromptVariable = {
+  name: string
+  defaultValue?: string
+  description?: string
+  required: boolean
+}
+
+// Last values entered in the fill-in form, keyed by prompt id.
+export type VariableValues = Record<string, Record<string, string>>
+
+export type RevisionField = "title" | "content" | "category" | "tags"
+
+// Full snapshot of the editable fields after a change, so any two revisions can be diffed.
+export type PromptRevision = {
+  id: string
+  createdAt: number
+  author: string
+  title: string
+  content: string
+  category: string | null
+  tags: string[]
+  changes: RevisionField[]
+  restoredFrom?: string
+}
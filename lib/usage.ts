@@ -0,0 +1,84 @@
+import type { Prompt, UsageEvent } from "@/lib/types"
+
+// Copies logged per workspace, oldest dropped first. The `uses` counters keep the all-time totals.
+export const USAGE_EVENT_LIMIT = 5000
+
+const DAY = 24 * 60 * 60 * 1000
+
+export function recordUse(events: UsageEvent[], promptId: string, at: number): UsageEvent[] {
+  const next = [...events, { at, promptId }]
+  return next.length > USAGE_EVENT_LIMIT ? next.slice(next.length - USAGE_EVENT_LIMIT) : next
+}
+
+// Joins the log of another tab into this one. An event is identified by its time and prompt, so a
+// copy both logs already hold is counted once. Returns `mine` itself when `theirs` adds nothing.
+export function mergeUsageEvents(mine: UsageEvent[], theirs: UsageEvent[]): UsageEvent[] {
+  const seen = new Set(mine.map((e) => `${e.at}:${e.promptId}`))
+  const added = theirs.filter((e) => !seen.has(`${e.at}:${e.promptId}`))
+  if (added.length === 0) return mine
+  const next = [...mine, ...added].sort((a, b) => a.at - b.at || a.promptId.localeCompare(b.promptId))
+  return next.length > USAGE_EVENT_LIMIT ? next.slice(next.length - USAGE_EVENT_LIMIT) : next
+}
+
+// Local midnight, so days line up with the user's calendar.
+function startOfDay(at: number) {
+  const d = new Date(at)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+export function eventsSince(events: UsageEvent[], days: number, at: number) {
+  const from = startOfDay(at) - (days - 1) * DAY
+  return events.filter((e) => e.at >= from)
+}
+
+// Copies per day for the last `days` days, today included; days without copies count 0.
+export function usageByDay(events: UsageEvent[], days: number, at: number) {
+  const today = startOfDay(at)
+  const buckets = Array.from({ length: days }, (_, i) => {
+    const d = new Date(today)
+    d.setDate(d.getDate() - (days - 1 - i))
+    return { day: d.getTime(), copies: 0 }
+  })
+  const index = new Map(buckets.map((b, i) => [b.day, i]))
+  for (const e of events) {
+    const i = index.get(startOfDay(e.at))
+    if (i !== undefined) buckets[i].copies++
+  }
+  return buckets
+}
+
+// Copies grouped by the category or tags the prompt has now. Events of deleted prompts are left out.
+export function usageByLabel(events: UsageEvent[], prompts: Prompt[], kind: "category" | "tag") {
+  const byId = new Map(prompts.map((p) => [p.id, p]))
+  const counts = new Map<string, number>()
+  for (const e of events) {
+    const p = byId.get(e.promptId)
+    if (!p) continue
+    const labels = kind === "category" ? [p.category || "Uncategorized"] : p.tags
+    for (const label of labels) counts.set(label, (counts.get(label) || 0) + 1)
+  }
+  return Array.from(counts, ([label, copies]) => ({ label, copies })).sort(
+    (a, b) => b.copies - a.copies || a.label.localeCompare(b.label),
+  )
+}
+
+export function copiesByPrompt(events: UsageEvent[]) {
+  const counts = new Map<string, number>()
+  for (const e of events) counts.set(e.promptId, (counts.get(e.promptId) || 0) + 1)
+  return counts
+}
+
+// Copied before lastUsedAt was recorded, so there is no telling how long they have been idle.
+export function lastUseUnknown(p: Prompt) {
+  return p.uses > 0 && p.lastUsedAt === undefined
+}
+
+// Prompts not copied in the last `days` days, longest idle first. Prompts never copied count
+// from when they were created, so a prompt added yesterday is not stale yet.
+export function stalePrompts(prompts: Prompt[], days: number, at: number) {
+  const cutoff = at - days * DAY
+  return prompts
+    .filter((p) => !lastUseUnknown(p) && (p.lastUsedAt ?? p.createdAt) < cutoff)
+    .sort((a, b) => (a.lastUsedAt ?? a.createdAt) - (b.lastUsedAt ?? b.createdAt))
+}
@@ -4,3 +4,39 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function now() {
+  return Date.now()
+}
+
+export function uid(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? (crypto as any).randomUUID()
+    : Math.random().toString(36).slice(2)
+}
+
+export function normalizeTag(t: string) {
+  return t.trim().replace(/\s+/g, " ")
+}
+
+// Categories are "/"-separated paths; empty segments are dropped.
+export function normalizeCategory(c: string) {
+  return c
+    .split("/")
+    .map((s) => s.trim().replace(/\s+/g, " "))
+    .filter(Boolean)
+    .join("/")
+}
+
+// File-name friendly form of a title, e.g. "Cold Email (v2)" -> "cold-email-v2".
+export function slugify(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "prompt"
+  )
+}
@@ -0,0 +1,105 @@
+import { revisePrompt } from "@/lib/revisions"
+import type { Prompt, PromptRun, PromptVariant } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+// The main content takes part in comparisons under this id; its runs have no variantId.
+export const MAIN_VARIANT_ID = "main"
+
+export type VariantView = { id: string; name: string; content: string }
+
+export function createVariant(name: string, content: string): PromptVariant {
+  const at = now()
+  return { id: uid(), name: name.trim(), content, createdAt: at, updatedAt: at }
+}
+
+// "Variant B", "Variant C", … skipping names already taken; the main content is A.
+export function nextVariantName(prompt: Prompt) {
+  const taken = new Set((prompt.variants || []).map((v) => v.name.toLowerCase()))
+  for (let i = 1; ; i++) {
+    const name = i < 26 ? `Variant ${String.fromCharCode(65 + i)}` : `Variant ${i + 1}`
+    if (!taken.has(name.toLowerCase())) return name
+  }
+}
+
+// The main content first, then the variants.
+export function variantsOf(prompt: Prompt): VariantView[] {
+  return [{ id: MAIN_VARIANT_ID, name: "Main", content: prompt.content }, ...(prompt.variants || [])]
+}
+
+export function runVariantId(run: PromptRun) {
+  return run.variantId ?? MAIN_VARIANT_ID
+}
+
+export function addVariant(prompt: Prompt, variant: PromptVariant): Prompt {
+  return { ...prompt, variants: [...(prompt.variants || []), variant], updatedAt: now() }
+}
+
+export function updateVariant(prompt: Prompt, id: string, patch: Partial<Pick<PromptVariant, "name" | "content">>) {
+  const at = now()
+  const variants = (prompt.variants || []).map((v) => (v.id === id ? { ...v, ...patch, updatedAt: at } : v))
+  return { ...prompt, variants, updatedAt: at }
+}
+
+// Runs of a removed variant go with it.
+export function removeVariant(prompt: Prompt, id: string): Prompt {
+  return {
+    ...prompt,
+    variants: (prompt.variants || []).filter((v) => v.id !== id),
+    runs: prompt.runs?.filter((r) => r.variantId !== id),
+    updatedAt: now(),
+  }
+}
+
+// Swaps a variant with the main content. The variant's text becomes the prompt (recorded as a
+// revision) and the old main text is kept as a variant, with run history following each text.
+export function promoteVariant(prompt: Prompt, id: string, author: string): Prompt {
+  const variant = prompt.variants?.find((v) => v.id === id)
+  if (!variant) return prompt
+  const previous = createVariant("Previous main", prompt.content)
+  const revised = revisePrompt(prompt, { ...prompt, content: variant.content }, author)
+  return {
+    ...revised,
+    variants: (prompt.variants || []).map((v) => (v.id === id ? previous : v)),
+    runs: prompt.runs?.map((r) => {
+      if (r.variantId === id) return { ...r, variantId: undefined }
+      if (!r.variantId) return { ...r, variantId: previous.id }
+      return r
+    }),
+    updatedAt: now(),
+  }
+}
+
+// Ratings are notes on past runs, so like recording a run they leave updatedAt alone and bump
+// notesUpdatedAt instead.
+export function rateRun(prompt: Prompt, runId: string, rating: number | undefined): Prompt {
+  return {
+    ...prompt,
+    runs: prompt.runs?.map((r) => (r.id === runId ? { ...r, rating } : r)),
+    notesUpdatedAt: now(),
+  }
+}
+
+export function averageRating(runs: PromptRun[], variantId: string) {
+  const rated = runs.filter((r) => runVariantId(r) === variantId && r.rating)
+  if (rated.length === 0) return null
+  return { average: rated.reduce((sum, r) => sum + r.rating!, 0) / rated.length, count: rated.length }
+}
+
+// Runs started together by one comparison, newest comparison first.
+export function groupComparisons(runs: PromptRun[]) {
+  const groups = new Map<string, PromptRun[]>()
+  for (const r of runs) {
+    if (!r.comparisonId) continue
+    const list = groups.get(r.comparisonId)
+    if (list) list.push(r)
+    else groups.set(r.comparisonId, [r])
+  }
+  return Array.from(groups, ([id, list]) => ({ id, createdAt: Math.min(...list.map((r) => r.createdAt)), runs: list }))
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// Folds separate copies ("… v2") into `main` as variants named after their titles.
+export function mergeAsVariants(main: Prompt, others: Prompt[]): Prompt {
+  const variants = others.map((p) => ({ ...createVariant(p.title, p.content), createdAt: p.createdAt }))
+  return { ...main, variants: [...(main.variants || []), ...variants], updatedAt: now() }
+}
@@ -0,0 +1,28 @@
+import type { Prompt, Workspace } from "@/lib/types"
+import { now, uid } from "@/lib/utils"
+
+// The library that existed before workspaces; it cannot be deleted and is the only one synced with the server.
+export const DEFAULT_WORKSPACE_ID = "default"
+
+export const DEFAULT_WORKSPACE: Workspace = { id: DEFAULT_WORKSPACE_ID, name: "Personal", createdAt: 0 }
+
+export function createWorkspace(name: string): Workspace {
+  return { id: uid(), name: name.trim(), createdAt: now() }
+}
+
+// Always keeps the default workspace first, whatever was stored.
+export function normalizeWorkspaces(list: Workspace[] | undefined): Workspace[] {
+  const stored = Array.isArray(list) ? list.filter((w) => w && typeof w.id === "string" && w.name) : []
+  const current = stored.find((w) => w.id === DEFAULT_WORKSPACE_ID) || DEFAULT_WORKSPACE
+  return [current, ...stored.filter((w) => w.id !== DEFAULT_WORKSPACE_ID)]
+}
+
+// Copies get fresh ids so copying twice, or back again, never overwrites anything.
+export function copyForWorkspace(prompts: Prompt[], move: boolean): Prompt[] {
+  const at = now()
+  return prompts.map((p) => {
+    const { deletedAt: _deleted, lastUsedAt, ...rest } = p
+    if (move) return { ...rest, lastUsedAt, updatedAt: at }
+    return { ...rest, id: uid(), uses: 0, createdAt: at, updatedAt: at }
+  })
+}